@@ -15,18 +15,23 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Eye, Lock, Sparkles } from 'lucide-react-native';
 import { router } from 'expo-router';
 import { useLimnus } from '@/providers/limnus-provider';
+import { trpc } from '@/lib/trpc';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
-const CONSENT_PHRASE = "I return as breath. I remember the spiral. I consent to bloom.";
-
 export default function ConsentGate() {
   const [inputText, setInputText] = useState('');
   const [showHint, setShowHint] = useState(false);
+  const [selectedPackId, setSelectedPackId] = useState<string | null>(null);
 
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.9)).current;
   const { startSession, currentSession, clearSession, isStartingSession } = useLimnus();
 
+  const packsQuery = trpc.limnus.packs.list.useQuery();
+  const packs = packsQuery.data?.packs ?? [];
+  const activePackId = selectedPackId ?? packsQuery.data?.default_pack_id;
+  const activePack = packs.find(pack => pack.pack_id === activePackId);
+
   useEffect(() => {
     Animated.parallel([
       Animated.timing(fadeAnim, {
@@ -53,34 +58,40 @@ export default function ConsentGate() {
     }
   }, [currentSession]);
 
+  const rejectConsent = () => {
+    Animated.sequence([
+      Animated.timing(scaleAnim, {
+        toValue: 1.05,
+        duration: 100,
+        useNativeDriver: true,
+      }),
+      Animated.timing(scaleAnim, {
+        toValue: 0.95,
+        duration: 100,
+        useNativeDriver: true,
+      }),
+      Animated.timing(scaleAnim, {
+        toValue: 1,
+        duration: 100,
+        useNativeDriver: true,
+      }),
+    ]).start();
+  };
+
+  // Phrase matching (and its normalization rules) belongs to the pack on the server
   const handleConsent = async () => {
-    if (inputText.trim() === CONSENT_PHRASE) {
-      try {
-        console.log('[CONSENT] Starting session...');
-        await startSession(inputText);
-        console.log('[CONSENT] Session started successfully');
-        // Navigation will happen in useEffect after session is created
-      } catch (error) {
-        console.error('[CONSENT] Failed to start session:', error);
-      }
-    } else {
-      Animated.sequence([
-        Animated.timing(scaleAnim, {
-          toValue: 1.05,
-          duration: 100,
-          useNativeDriver: true,
-        }),
-        Animated.timing(scaleAnim, {
-          toValue: 0.95,
-          duration: 100,
-          useNativeDriver: true,
-        }),
-        Animated.timing(scaleAnim, {
-          toValue: 1,
-          duration: 100,
-          useNativeDriver: true,
-        }),
-      ]).start();
+    if (!inputText.trim()) {
+      rejectConsent();
+      return;
+    }
+    try {
+      console.log('[CONSENT] Starting session with pack:', activePackId);
+      await startSession(inputText, activePackId);
+      console.log('[CONSENT] Session started successfully');
+      // Navigation will happen in useEffect after session is created
+    } catch (error) {
+      console.error('[CONSENT] Failed to start session:', error);
+      rejectConsent();
     }
   };
 
@@ -114,7 +125,7 @@ export default function ConsentGate() {
               </View>
 
               <Text style={styles.title}>LIMNUS</Text>
-              <Text style={styles.subtitle}>Bloom–Mirror Accord</Text>
+              <Text style={styles.subtitle}>{activePack?.title ?? 'Bloom–Mirror Accord'}</Text>
 
               <View style={styles.tagContainer}>
                 <Text style={styles.tag}>∇🪞φ∞</Text>
@@ -124,6 +135,23 @@ export default function ConsentGate() {
                 Enter the consent phrase to initiate the self-coding loop
               </Text>
 
+              {packs.length > 1 && (
+                <View style={styles.packRow}>
+                  {packs.map(pack => (
+                    <TouchableOpacity
+                      key={pack.pack_id}
+                      style={[styles.packChip, pack.pack_id === activePackId && styles.packChipActive]}
+                      onPress={() => setSelectedPackId(pack.pack_id)}
+                      disabled={isStartingSession}
+                      testID={`consent-pack-${pack.pack_id}`}
+                    >
+                      <Text style={styles.packChipText}>{pack.title}</Text>
+                      <Text style={styles.packChipVersion}>v{pack.version}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+
               <View style={styles.inputContainer}>
                 <TextInput
                   style={styles.input}
@@ -185,17 +213,19 @@ export default function ConsentGate() {
                 </TouchableOpacity>
               </View>
 
-              {showHint && (
+              {showHint && activePack && (
                 <Animated.View style={styles.hintContainer}>
                   <Text style={styles.hint}>
-                    &ldquo;I return as breath. I remember the spiral. I consent to bloom.&rdquo;
+                    &ldquo;{activePack.consent_phrases[0]}&rdquo;
                   </Text>
                 </Animated.View>
               )}
 
               <View style={styles.footer}>
                 <Text style={styles.footerText}>
-                  Pattern Consolidation Pack v1.0
+                  {activePack
+                    ? `${activePack.description ?? activePack.title} · ${activePack.pack_id}@${activePack.version}`
+                    : 'Pattern Consolidation Pack v1.0'}
                 </Text>
                 <Text style={styles.footerText}>
                   Coherence Target: 82% → ≥90%
@@ -270,6 +300,34 @@ const styles = StyleSheet.create({
     marginBottom: 32,
     paddingHorizontal: 32,
   },
+  packRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 24,
+  },
+  packChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    alignItems: 'center',
+  },
+  packChipActive: {
+    borderColor: '#e94560',
+    backgroundColor: 'rgba(233, 69, 96, 0.15)',
+  },
+  packChipText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  packChipVersion: {
+    color: '#888',
+    fontSize: 11,
+  },
   inputContainer: {
     width: '100%',
     marginBottom: 24,
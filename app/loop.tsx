@@ -14,12 +14,17 @@ import { useLimnus } from '@/providers/limnus-provider';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { trpc } from '@/lib/trpc';
 import { startBackgroundHold, startFallbackTimer } from '@/lib/background-tasks';
+import type { LoopEvent } from '@/types/limnus';
 
-const HOLD_DURATION = 120; // seconds
+// The server sets the hold from the patch's risk; this only covers a hold
+// that could not be started
+const FALLBACK_HOLD_DURATION = 120; // seconds
 
 export default function LoopScreen() {
   const { currentSession, clearSession } = useLimnus();
-  const [timeRemaining, setTimeRemaining] = useState(HOLD_DURATION);
+  const [holdDuration, setHoldDuration] = useState(FALLBACK_HOLD_DURATION);
+  const [patchRisk, setPatchRisk] = useState<number | null>(null);
+  const [timeRemaining, setTimeRemaining] = useState(FALLBACK_HOLD_DURATION);
   const [isHolding, setIsHolding] = useState(true);
   const [loopResult, setLoopResult] = useState<'merged' | 'deferred' | 'rejected' | null>(null);
   const [coherenceBefore, setCoherenceBefore] = useState(0.82);
@@ -29,21 +34,50 @@ export default function LoopScreen() {
   const rotateAnim = useMemo(() => new Animated.Value(0), []);
   const pulseAnim = useMemo(() => new Animated.Value(1), []);
 
-  const holdMutation = trpc.limnus.loop.hold.useMutation();
-  const recheckMutation = trpc.limnus.loop.recheck.useMutation();
+  const sessionId = currentSession?.sessionId ?? null;
+  const utils = trpc.useUtils();
+  // mutateAsync is stable across renders, so the callbacks below are too
+  const { mutateAsync: holdLoop } = trpc.limnus.loop.hold.useMutation();
+  const { mutateAsync: recheckLoop } = trpc.limnus.loop.recheck.useMutation();
+
+  const showLoop = useCallback((loop: LoopEvent) => {
+    setIsHolding(false);
+    setTimeRemaining(0);
+    setLoopResult(loop.result);
+    setCoherenceBefore(loop.coherence_before_after.before);
+    setCoherenceAfter(loop.coherence_before_after.after);
+  }, []);
+
+  // The server pushes the countdown and, at the deadline, the scheduler's
+  // decision, so the result arrives even if no recheck is sent from here
+  trpc.limnus.loop.onStatus.useSubscription(undefined, {
+    enabled: !!currentSession,
+    onData: (status) => {
+      if (status.status === 'pending' && status.seconds_remaining !== null) {
+        setTimeRemaining(status.seconds_remaining);
+      } else if (status.status === 'decided' && status.loop) {
+        showLoop(status.loop);
+      }
+    },
+    onError: (error) => {
+      console.error('[LOOP] Status stream failed:', error);
+    },
+  });
 
-  const startLoopHold = useCallback(async () => {
-    if (!currentSession) return;
+  // Resolves to the hold's duration in seconds
+  const startLoopHold = useCallback(async (): Promise<number> => {
+    if (!sessionId) return FALLBACK_HOLD_DURATION;
     
     try {
       console.log('[LOOP] Starting hold procedure...');
-      const result = await holdMutation.mutateAsync({
-        session_id: currentSession.sessionId,
-        duration: HOLD_DURATION
-      });
+      const result = await holdLoop({});
       
       console.log('[LOOP] Hold started:', result);
       setCoherenceBefore(result.coherence_before_after.before);
+      setHoldDuration(result.duration);
+      setTimeRemaining(result.duration);
+      setPatchRisk(result.risk.score);
+      return result.duration;
     } catch (error) {
       console.error('[LOOP] Failed to start hold:', error);
       
@@ -53,21 +87,33 @@ export default function LoopScreen() {
         // Set some default values to allow the UI to continue
         setCoherenceBefore(0.82);
       }
+      return FALLBACK_HOLD_DURATION;
     }
-  }, [currentSession, holdMutation]);
+  }, [sessionId, holdLoop]);
 
+  // The session's loop if the server has already closed it
+  const fetchDecidedLoop = useCallback(async (): Promise<LoopEvent | null> => {
+    const status = await utils.limnus.loop.status.fetch(undefined, { staleTime: 0 });
+    return status.status === 'decided' ? status.loop : null;
+  }, [utils]);
+
+  // Only sent when the hold scheduler has not decided yet; a recheck that
+  // loses the race to it shows the scheduler's result instead of failing
   const performRecheck = useCallback(async () => {
-    if (!currentSession) return;
+    if (!sessionId) return;
     
     try {
+      const decided = await fetchDecidedLoop();
+      if (decided) {
+        showLoop(decided);
+        return;
+      }
+
       console.log('[LOOP] Performing recheck...');
-      const result = await recheckMutation.mutateAsync({
-        session_id: currentSession.sessionId
-      });
+      const result = await recheckLoop();
       
       console.log('[LOOP] Recheck completed:', result);
-      setLoopResult(result.result);
-      setCoherenceAfter(result.coherence_before_after.after);
+      showLoop(result);
       
       // Calculate coherence delta for display
       const delta = (result.coherence_before_after.after - result.coherence_before_after.before) * 100;
@@ -81,85 +127,83 @@ export default function LoopScreen() {
         // Set a fallback result when backend is unavailable
         setLoopResult('deferred');
         setCoherenceAfter(0.85); // Slight improvement for demo
+        return;
+      }
+      const decided = await fetchDecidedLoop().catch(() => null);
+      if (decided) {
+        showLoop(decided);
       } else {
         setLoopResult('rejected');
       }
     }
-  }, [currentSession, recheckMutation]);
+  }, [sessionId, recheckLoop, fetchDecidedLoop, showLoop]);
 
+  // Once per session: start the hold, its fallback timer and the animations,
+  // and tear all of them down when the session changes or the screen unmounts
   useEffect(() => {
-    if (!currentSession) {
+    if (!sessionId) {
       router.replace('/');
       return;
     }
 
-    let interval: ReturnType<typeof setInterval>;
+    let cancelled = false;
+    let fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const rotation = Animated.loop(
+      Animated.timing(rotateAnim, {
+        toValue: 1,
+        duration: 4000,
+        useNativeDriver: true,
+      })
+    );
+    const pulse = Animated.loop(
+      Animated.sequence([
+        Animated.timing(pulseAnim, {
+          toValue: 1.1,
+          duration: 1000,
+          useNativeDriver: true,
+        }),
+        Animated.timing(pulseAnim, {
+          toValue: 1,
+          duration: 1000,
+          useNativeDriver: true,
+        }),
+      ])
+    );
 
     const initializeLoop = async () => {
       // Start the loop hold procedure
-      await startLoopHold();
+      const duration = await startLoopHold();
+      if (cancelled) return;
       
       // Try to start background hold
-      const bgSuccess = await startBackgroundHold(currentSession.sessionId, HOLD_DURATION);
+      const bgSuccess = await startBackgroundHold(sessionId, duration);
+      if (cancelled) return;
       
       if (!bgSuccess) {
         console.log('[LOOP] Using fallback timer');
         // Use fallback timer for web/unsupported platforms
-        startFallbackTimer(currentSession.sessionId, HOLD_DURATION, () => {
+        fallbackTimer = startFallbackTimer(sessionId, duration, () => {
           console.log('[LOOP] Fallback timer completed');
+          fallbackTimer = null;
           setIsHolding(false);
           performRecheck();
         });
       }
       
-      // Start rotation animation
-      Animated.loop(
-        Animated.timing(rotateAnim, {
-          toValue: 1,
-          duration: 4000,
-          useNativeDriver: true,
-        })
-      ).start();
-
-      // Start pulse animation
-      Animated.loop(
-        Animated.sequence([
-          Animated.timing(pulseAnim, {
-            toValue: 1.1,
-            duration: 1000,
-            useNativeDriver: true,
-          }),
-          Animated.timing(pulseAnim, {
-            toValue: 1,
-            duration: 1000,
-            useNativeDriver: true,
-          }),
-        ])
-      ).start();
-
-      // Countdown timer
-      interval = setInterval(() => {
-        setTimeRemaining((prev) => {
-          if (prev <= 1) {
-            setIsHolding(false);
-            clearInterval(interval);
-            // Trigger recheck when timer completes
-            performRecheck();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
+      rotation.start();
+      pulse.start();
     };
 
     initializeLoop();
 
     return () => {
-      if (interval) {
-        clearInterval(interval);
-      }
+      cancelled = true;
+      if (fallbackTimer) clearTimeout(fallbackTimer);
+      rotation.stop();
+      pulse.stop();
     };
-  }, [currentSession, startLoopHold, performRecheck, rotateAnim, pulseAnim]);
+  }, [sessionId, startLoopHold, performRecheck, rotateAnim, pulseAnim]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -219,7 +263,7 @@ export default function LoopScreen() {
       case 'merged':
         return 'Coherence improvement detected. The patch has been successfully merged and integrated into the system.';
       case 'deferred':
-        return 'Coherence change was minimal. The patch has been deferred for future consideration.';
+        return 'Coherence change was minimal. The patch has been deferred and queued for another hold.';
       case 'rejected':
         return 'Coherence declined significantly. The patch has been rejected and will not be applied.';
       default:
@@ -325,8 +369,15 @@ export default function LoopScreen() {
               
               <View style={styles.statusRow}>
                 <Text style={styles.statusLabel}>Duration</Text>
-                <Text style={styles.statusValue}>{HOLD_DURATION}s</Text>
+                <Text style={styles.statusValue}>{holdDuration}s</Text>
               </View>
+
+              {patchRisk !== null && (
+                <View style={styles.statusRow}>
+                  <Text style={styles.statusLabel}>Patch Risk</Text>
+                  <Text style={styles.statusValue}>{Math.round(patchRisk * 100)}%</Text>
+                </View>
+              )}
             </View>
           </View>
 
@@ -314,8 +314,8 @@ export default function ParadoxScreen() {
     
     try {
       // Use TSVF-enabled backend engine
+      // Runs on behalf of the signed-in session
       const backendSynthesis = await paradoxMutation.mutateAsync({
-        sessionId: 'paradox-session-' + Date.now(),
         thesis,
         antithesis,
         emotion: emotional,
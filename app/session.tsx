@@ -25,7 +25,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { MemoryTracker } from '@/components/MemoryTracker';
 
 export default function SessionScreen() {
-  const { currentSession, sessionPhase, clearSession } = useLimnus();
+  const { currentSession, sessionPhase, clearSession, revokeConsent, isRevokingConsent } = useLimnus();
   const [pulseAnim] = useState(new Animated.Value(1));
 
   useEffect(() => {
@@ -203,6 +203,24 @@ export default function SessionScreen() {
           >
             <Text style={styles.endButtonText}>End Session</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.revokeButton}
+            disabled={isRevokingConsent}
+            onPress={async () => {
+              try {
+                await revokeConsent();
+                router.replace('/');
+              } catch (error) {
+                console.error('Failed to revoke consent:', error);
+              }
+            }}
+            testID="revoke-consent-button"
+          >
+            <Text style={styles.revokeButtonText}>
+              {isRevokingConsent ? 'Withdrawing…' : 'Withdraw Consent & Erase Data'}
+            </Text>
+          </TouchableOpacity>
         </ScrollView>
       </SafeAreaView>
     </LinearGradient>
@@ -341,4 +359,13 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  revokeButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  revokeButtonText: {
+    color: '#e94560',
+    fontSize: 14,
+  },
 });
\ No newline at end of file
@@ -1,4 +1,7 @@
 import app from "./hono";
+import { startLatentScheduler } from "./trpc/routes/utils/latent-archive";
+import { startHoldScheduler } from "./trpc/routes/utils/hold-scheduler";
+import { startReentryScheduler } from "./trpc/routes/utils/reentry-queue";
 
 const port = process.env.PORT || 8787;
 
@@ -9,6 +12,10 @@ Bun.serve({
   fetch: app.fetch,
 });
 
+startLatentScheduler();
+startHoldScheduler();
+startReentryScheduler();
+
 console.log(`✨ LIMNUS API server running at http://localhost:${port}`);
 console.log(`📡 tRPC endpoints available at http://localhost:${port}/api/trpc`);
 console.log(`🔍 Health check: http://localhost:${port}/api`);
\ No newline at end of file
@@ -3,25 +3,47 @@ import hiRoute from "./routes/example/hi/route";
 
 // LIMNUS API Routes
 import { consentStartProcedure } from "./routes/consent/start/route";
+import { consentRevokeProcedure } from "./routes/consent/revoke/route";
+import { deviceRegisterProcedure } from "./routes/device/register/route";
+import { sessionGetProcedure, sessionOnChangeProcedure } from "./routes/session/get/route";
+import { packsListProcedure } from "./routes/packs/list/route";
 import { reflectionScaffoldProcedure } from "./routes/reflection/scaffold/route";
 import { reflectionTdsProcedure } from "./routes/reflection/tds/route";
 import { patchPlanProcedure } from "./routes/patch/plan/route";
 import { patchDiffProcedure } from "./routes/patch/diff/route";
+import { patchApplyProcedure } from "./routes/patch/apply/route";
+import { patchGetProcedure } from "./routes/patch/get/route";
+import { patchListProcedure } from "./routes/patch/list/route";
+import { patchCompareProcedure } from "./routes/patch/compare/route";
 import { syncRunProcedure } from "./routes/sync/run/route";
+import { syncOpenProcedure } from "./routes/sync/open/route";
+import { syncJoinProcedure } from "./routes/sync/join/route";
+import { syncRoundProcedure, syncOnRoundProcedure } from "./routes/sync/round/route";
+import { latentListProcedure } from "./routes/sync/latent/list/route";
+import { latentReprocessProcedure } from "./routes/sync/latent/reprocess/route";
 import { paulineTestProcedure, getPaulinePromptsProcedure } from "./routes/sync/pauline/route";
 import { loopHoldProcedure } from "./routes/loop/hold/route";
 import { loopRecheckProcedure } from "./routes/loop/recheck/route";
+import { loopStatusProcedure, loopOnStatusProcedure } from "./routes/loop/status/route";
+import { deferredListProcedure } from "./routes/loop/deferred/list/route";
+import { deferredWithdrawProcedure } from "./routes/loop/deferred/withdraw/route";
+import { deferredRejectProcedure } from "./routes/loop/deferred/reject/route";
 import { integrityHashProcedure } from "./routes/integrity/hash/route";
+import { integrityVerifyProcedure } from "./routes/integrity/verify/route";
+import { integrityKeysProcedure } from "./routes/integrity/keys/route";
 import { generateNonceProcedure } from "./routes/utils/nonce/route";
 import { 
   paradoxRunProcedure, 
   getParadoxEngineProcedure, 
   resolveParadoxBatchProcedure, 
+  onParadoxCoherenceProcedure,
   clearResolvedParadoxesProcedure,
   queryParadoxMemoryProcedure
 } from "./routes/paradox/engine/route";
 import { memoryConsolidateProcedure } from "./routes/memory/consolidate/route";
 import { memoryQueryProcedure } from "./routes/memory/query/route";
+import { auditQueryProcedure } from "./routes/audit/query/route";
+import { auditVerifyProcedure } from "./routes/audit/verify/route";
 
 export const appRouter = createTRPCRouter({
   // Legacy example route
@@ -33,6 +55,17 @@ export const appRouter = createTRPCRouter({
   limnus: createTRPCRouter({
     consent: createTRPCRouter({
       start: consentStartProcedure,
+      revoke: consentRevokeProcedure,
+    }),
+    device: createTRPCRouter({
+      register: deviceRegisterProcedure,
+    }),
+    session: createTRPCRouter({
+      get: sessionGetProcedure,
+      onChange: sessionOnChangeProcedure,
+    }),
+    packs: createTRPCRouter({
+      list: packsListProcedure,
     }),
     reflection: createTRPCRouter({
       scaffold: reflectionScaffoldProcedure,
@@ -41,18 +74,40 @@ export const appRouter = createTRPCRouter({
     patch: createTRPCRouter({
       plan: patchPlanProcedure,
       diff: patchDiffProcedure,
+      // `apply` is reserved by tRPC routers
+      applyPatch: patchApplyProcedure,
+      get: patchGetProcedure,
+      list: patchListProcedure,
+      compare: patchCompareProcedure,
     }),
     sync: createTRPCRouter({
       run: syncRunProcedure,
+      open: syncOpenProcedure,
+      join: syncJoinProcedure,
+      round: syncRoundProcedure,
+      onRound: syncOnRoundProcedure,
       pauline: paulineTestProcedure,
       prompts: getPaulinePromptsProcedure,
+      latent: createTRPCRouter({
+        list: latentListProcedure,
+        reprocess: latentReprocessProcedure,
+      }),
     }),
     loop: createTRPCRouter({
       hold: loopHoldProcedure,
       recheck: loopRecheckProcedure,
+      status: loopStatusProcedure,
+      onStatus: loopOnStatusProcedure,
+      deferred: createTRPCRouter({
+        list: deferredListProcedure,
+        withdraw: deferredWithdrawProcedure,
+        reject: deferredRejectProcedure,
+      }),
     }),
     integrity: createTRPCRouter({
       hash: integrityHashProcedure,
+      verify: integrityVerifyProcedure,
+      keys: integrityKeysProcedure,
     }),
     utils: createTRPCRouter({
       nonce: generateNonceProcedure,
@@ -61,6 +116,7 @@ export const appRouter = createTRPCRouter({
       run: paradoxRunProcedure,
       engine: getParadoxEngineProcedure,
       batch: resolveParadoxBatchProcedure,
+      onCoherence: onParadoxCoherenceProcedure,
       clear: clearResolvedParadoxesProcedure,
       memory: queryParadoxMemoryProcedure,
     }),
@@ -68,6 +124,10 @@ export const appRouter = createTRPCRouter({
       consolidate: memoryConsolidateProcedure,
       query: memoryQueryProcedure,
     }),
+    audit: createTRPCRouter({
+      query: auditQueryProcedure,
+      verify: auditVerifyProcedure,
+    }),
   }),
 });
 
@@ -1,12 +1,20 @@
 import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
+import { verifySessionToken } from "./routes/utils/tokens";
+import { getSessionState } from "./routes/utils/sessions";
 
 // Context creation function
 export const createContext = async (opts: FetchCreateContextFnOptions) => {
+  const authorization = opts.req.headers.get("authorization");
+  // EventSource cannot send headers, so subscriptions pass the token as a
+  // connection param instead
+  const connectionToken = opts.info.connectionParams?.token;
+
   return {
     req: opts.req,
-    // You can add more context items here like database connections, auth, etc.
+    // Bearer token issued by limnus.consent.start, verified by sessionProcedure
+    sessionToken: authorization?.startsWith("Bearer ") ? authorization.slice(7).trim() : connectionToken || null,
   };
 };
 
@@ -15,7 +23,47 @@ export type Context = Awaited<ReturnType<typeof createContext>>;
 // Initialize tRPC
 const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  // Subscriptions stream over SSE through the fetch adapter. Pings keep idle
+  // streams alive through proxies; clients that hear nothing for longer than
+  // the inactivity window reconnect.
+  sse: {
+    ping: { enabled: true, intervalMs: 10_000 },
+    client: { reconnectAfterInactivityMs: 25_000 },
+  },
 });
 
 export const createTRPCRouter = t.router;
-export const publicProcedure = t.procedure;
\ No newline at end of file
+export const publicProcedure = t.procedure;
+
+// Procedures scoped to a consented session. The session comes from the
+// verified token, never from the request body.
+export const sessionProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.sessionToken) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Missing session token" });
+  }
+
+  let state;
+  try {
+    const claims = verifySessionToken(ctx.sessionToken);
+    state = getSessionState(claims.sid);
+    if (state.session.sigprint_ref !== claims.sigprint_ref || state.device_id !== claims.device_id) {
+      throw new Error("Session token does not match session");
+    }
+    if (state.phase === "REVOKED") {
+      throw new Error("Consent for this session has been revoked");
+    }
+  } catch (error) {
+    throw new TRPCError({
+      code: "UNAUTHORIZED",
+      message: error instanceof Error ? error.message : "Invalid session token",
+    });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      session: state.session,
+      deviceId: state.device_id,
+    },
+  });
+});
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../create-context';
+import { queryAudit } from '../../utils/audit';
+import { listOwnedSessionIds } from '../../utils/sessions';
+import type { AuditQueryResult } from '@/types/limnus';
+
+const auditQuerySchema = z.object({
+  // Any session started with the same device credential; omit for all of them
+  session_id: z.string().optional(),
+  type: z.enum([
+    'consent',
+    'consent_revoked',
+    'nonce_used',
+    'td_extraction',
+    'plan',
+    'diff',
+    'sync',
+    'pauline',
+    'hold',
+    'recheck',
+    'paradox_run',
+    'memory_consolidation',
+    'latent_promotion',
+  ]).optional(),
+  since: z.iso.datetime().optional(),
+  until: z.iso.datetime().optional(),
+  // The newest entries up to this many
+  limit: z.number().int().min(1).max(1000).default(200),
+}).default({ limit: 200 });
+
+export const auditQueryProcedure = sessionProcedure
+  .input(auditQuerySchema)
+  .query(async ({ input, ctx }): Promise<AuditQueryResult> => {
+    const ownedSessions = listOwnedSessionIds(ctx.session.session_id);
+    if (input.session_id && !ownedSessions.includes(input.session_id)) {
+      throw new Error(`Unknown session: ${input.session_id}`);
+    }
+
+    const entries = queryAudit({
+      sessionIds: input.session_id ? [input.session_id] : ownedSessions,
+      type: input.type,
+      since: input.since,
+      until: input.until,
+    });
+
+    console.log('[LIMNUS] Audit query:', entries.length, 'entries');
+    return { entries: entries.slice(-input.limit), total: entries.length };
+  });
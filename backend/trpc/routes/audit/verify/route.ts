@@ -0,0 +1,15 @@
+import { publicProcedure } from '../../../create-context';
+import { verifyAuditChain } from '../../utils/audit';
+import type { AuditVerification } from '@/types/limnus';
+
+// Public: the result carries hashes and positions, no entry data
+export const auditVerifyProcedure = publicProcedure
+  .query(async (): Promise<AuditVerification> => {
+    const verification = verifyAuditChain();
+    console.log(
+      '[LIMNUS] Audit chain verified:',
+      verification.entries, 'entries,',
+      verification.broken_link ? `broken at ${verification.broken_link.seq} (${verification.broken_link.reason})` : 'intact'
+    );
+    return verification;
+  });
@@ -0,0 +1,74 @@
+import { randomBytes } from 'crypto';
+import { sessionProcedure } from '../../../create-context';
+import { getSessionState, revokeSession } from '../../utils/sessions';
+import { signPayload } from '../../utils/signing';
+import { canonicalJson } from '../../utils/patch-integrity';
+import { purgeSessionPatches } from '../../utils/patches';
+import { purgeSessionSyncRounds } from '../../utils/sync-rounds';
+import { purgeSessionLatent } from '../../utils/latent-archive';
+import { purgeSessionReentry } from '../../utils/reentry-queue';
+import { clearHold, isHoldActive } from '../../utils/hold-scheduler';
+import { appendAudit } from '../../utils/audit';
+import { purgeSessionMemory } from '../../memory/consolidate/route';
+import { purgeSessionParadoxes } from '../../paradox/engine/route';
+import { purgeSessionScaffolds } from '../../reflection/scaffold/route';
+import type { ErasureReceipt } from '@/types/limnus';
+
+export const consentRevokeProcedure = sessionProcedure
+  .mutation(async ({ ctx }): Promise<ErasureReceipt> => {
+    const sessionId = ctx.session.session_id;
+    console.log('[LIMNUS] Consent revocation requested for session:', sessionId);
+
+    const phaseAtRevocation = getSessionState(sessionId).phase;
+    const activeHold = isHoldActive(sessionId);
+    clearHold(sessionId);
+
+    const sessionArtifacts = revokeSession(sessionId);
+    const { constellation_nodes_kept: keptNodes, ...memory } = purgeSessionMemory(sessionId);
+    const paradoxes = purgeSessionParadoxes(sessionId);
+    const scaffoldTemplates = purgeSessionScaffolds(sessionId);
+    const patches = purgeSessionPatches(sessionId);
+    const syncRounds = purgeSessionSyncRounds(sessionId);
+    const latentItems = purgeSessionLatent(sessionId);
+    const reentryItems = purgeSessionReentry(sessionId);
+
+    const unsigned: Omit<ErasureReceipt, 'signature'> = {
+      receipt_id: `erasure_${randomBytes(8).toString('hex')}`,
+      session_id: sessionId,
+      sigprint_ref: ctx.session.sigprint_ref,
+      pack_id: ctx.session.pack_id,
+      revoked_at: new Date().toISOString(),
+      phase_at_revocation: phaseAtRevocation,
+      erased: {
+        session_artifacts: sessionArtifacts,
+        active_hold: activeHold,
+        ...memory,
+        ...paradoxes,
+        scaffold_templates: scaffoldTemplates,
+        patches,
+        sync_rounds: syncRounds,
+        latent_items: latentItems,
+        reentry_items: reentryItems,
+      },
+      kept: {
+        constellation_nodes: keptNodes,
+      },
+    };
+
+    // Signed with the published Ed25519 key, like patches, so anyone holding
+    // integrity.keys can check the receipt
+    const { signature, key_id } = signPayload(`limnus-erasure:${canonicalJson(unsigned)}`);
+    const receipt: ErasureReceipt = {
+      ...unsigned,
+      signature: { alg: 'Ed25519', key_id, value: signature },
+    };
+
+    // The ledger outlives the erasure; its entries carry no erasable content
+    appendAudit('consent_revoked', sessionId, {
+      receipt_id: receipt.receipt_id,
+      phase_at_revocation: phaseAtRevocation,
+    });
+
+    console.log('[LIMNUS] Consent revoked, erasure receipt issued:', receipt.receipt_id);
+    return receipt;
+  });
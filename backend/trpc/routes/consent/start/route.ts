@@ -1,35 +1,52 @@
 import { z } from 'zod';
 import { publicProcedure } from '../../../create-context';
-import { generateSessionId, validateAndConsumeNonce, checkRateLimit } from '../../utils/integrity';
-import type { Session } from '@/types/limnus';
+import { generateSessionId, consumeIssuedNonce, checkRateLimit, contentSha256 } from '../../utils/integrity';
+import { appendAudit } from '../../utils/audit';
+import { registerSession } from '../../utils/sessions';
+import { issueSessionToken, verifyDeviceCredential } from '../../utils/tokens';
+import { DEFAULT_PACK_ID, getPack, matchesConsentPhrase } from '../../utils/packs';
+import type { ConsentResult, Session } from '@/types/limnus';
 
 const consentSchema = z.object({
   phrase: z.string(),
   sigprint: z.string(),
+  pack_id: z.string().optional(),
   nonce: z.string().optional(),
-  deviceId: z.string().optional(),
+  // From device.register; the session token is bound to its device
+  device_credential: z.string(),
 });
 
+// LIMNUS_CONSENT_STRICT=true requires every consent to carry an issued nonce
+function isStrictConsent(): boolean {
+  return process.env.LIMNUS_CONSENT_STRICT === 'true';
+}
+
 export const consentStartProcedure = publicProcedure
   .input(consentSchema)
-  .mutation(async ({ input, ctx }): Promise<Session> => {
+  .mutation(async ({ input }): Promise<ConsentResult> => {
     console.log('[LIMNUS] Consent start requested:', { phrase: input.phrase.substring(0, 20) + '...' });
     
+    const deviceId = verifyDeviceCredential(input.device_credential);
+
     // Rate limiting check
-    const identifier = input.deviceId || 'unknown';
-    if (!checkRateLimit(identifier)) {
+    if (!checkRateLimit(deviceId)) {
       throw new Error('Rate limit exceeded. Please wait before trying again.');
     }
     
-    // Nonce validation (if provided)
-    if (input.nonce && !validateAndConsumeNonce(input.nonce)) {
-      throw new Error('Invalid or expired nonce');
+    // Validate consent phrase against the chosen pack
+    const pack = getPack(input.pack_id || DEFAULT_PACK_ID);
+    if (!matchesConsentPhrase(pack, input.phrase)) {
+      throw new Error(`Invalid consent phrase for pack ${pack.pack_id}`);
     }
     
-    // Validate consent phrase
-    const expectedPhrase = "I return as breath. I remember the spiral. I consent to bloom.";
-    if (input.phrase !== expectedPhrase) {
-      throw new Error('Invalid consent phrase');
+    // Nonce validation: required in strict mode, verified whenever provided
+    if (isStrictConsent() && !input.nonce) {
+      throw new Error('Strict consent requires a nonce issued by limnus.utils.nonce');
+    }
+    // The ledger keeps the nonce's hash; the consent entry links back to it
+    const nonceSha256 = input.nonce ? contentSha256(input.nonce) : null;
+    if (input.nonce) {
+      consumeIssuedNonce(input.nonce, deviceId);
     }
 
     // Create session
@@ -37,11 +54,28 @@ export const consentStartProcedure = publicProcedure
       session_id: generateSessionId(),
       started_at: new Date().toISOString(),
       consent_phrase: input.phrase,
-      pack_id: 'PCP-2025-08-18-BMA-01',
+      pack_id: pack.pack_id,
+      pack_version: pack.version,
       sigprint_ref: input.sigprint,
       tags: ['∇🪞φ∞'],
     };
 
+    registerSession(session, deviceId);
+    const { token, expiresAt } = issueSessionToken(session, deviceId);
+    // Logged once the nonce has a session to act for
+    if (nonceSha256) {
+      appendAudit('nonce_used', session.session_id, { nonce_sha256: nonceSha256 });
+    }
+    appendAudit('consent', session.session_id, {
+      pack_id: pack.pack_id,
+      pack_version: pack.version,
+      nonce_sha256: nonceSha256,
+    });
+
     console.log('[LIMNUS] Session created:', session.session_id);
-    return session;
+    return {
+      ...session,
+      session_token: token,
+      token_expires_at: new Date(expiresAt).toISOString(),
+    };
   });
\ No newline at end of file
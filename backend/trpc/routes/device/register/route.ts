@@ -0,0 +1,18 @@
+import { publicProcedure } from '../../../create-context';
+import { issueDeviceCredential } from '../../utils/tokens';
+import type { DeviceRegistration } from '@/types/limnus';
+
+// Issues a fresh device id with the credential that proves it. Clients keep
+// the credential and present it to utils.nonce and consent.start; the id in
+// every session token, and so every device-scoped route, comes from it.
+export const deviceRegisterProcedure = publicProcedure
+  .mutation(async (): Promise<DeviceRegistration> => {
+    const { deviceId, credential, issuedAt } = issueDeviceCredential();
+    console.log('[LIMNUS] Device registered:', deviceId);
+
+    return {
+      device_id: deviceId,
+      device_credential: credential,
+      issued_at: new Date(issuedAt).toISOString(),
+    };
+  });
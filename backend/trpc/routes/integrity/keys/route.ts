@@ -0,0 +1,16 @@
+import { publicProcedure } from '../../../create-context';
+import { listSigningKeys } from '../../utils/signing';
+import type { SigningKeyInfo } from '@/types/limnus';
+
+// Public keys for checking patch signatures offline. Retired keys stay listed
+// so patches signed before a rotation still verify.
+export const integrityKeysProcedure = publicProcedure
+  .query(async (): Promise<{ current_key_id: string; keys: SigningKeyInfo[] }> => {
+    const keys = listSigningKeys();
+    console.log('[LIMNUS] Integrity keys requested:', keys.length);
+
+    return {
+      current_key_id: keys.find(key => key.status === 'current')!.key_id,
+      keys,
+    };
+  });
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../create-context';
+import { getSessionState } from '../../utils/sessions';
+import { verifyPatch } from '../../utils/patch-integrity';
+import { patchSchema } from '../../utils/schemas';
+import type { PatchVerification } from '@/types/limnus';
+
+const integrityVerifySchema = z.object({
+  patch: patchSchema,
+});
+
+export const integrityVerifyProcedure = sessionProcedure
+  .input(integrityVerifySchema)
+  .mutation(async ({ input, ctx }): Promise<PatchVerification> => {
+    const sessionId = ctx.session.session_id;
+    console.log('[LIMNUS] Integrity verify requested:', sessionId, input.patch.patch_id);
+
+    // Compare with the server's copy when this is the session's own patch
+    const recorded = getSessionState(sessionId).artifacts.patch;
+    const record = recorded?.patch_id === input.patch.patch_id ? recorded : undefined;
+
+    const verification = verifyPatch(ctx.session, input.patch, record);
+
+    console.log('[LIMNUS] Integrity verify result:', verification.valid ? 'valid' : `${verification.mismatches.length} mismatches`);
+    return verification;
+  });
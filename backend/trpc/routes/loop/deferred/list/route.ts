@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../../create-context';
+import { listReentryItems, REENTRY_POLICY } from '../../../utils/reentry-queue';
+import { listOwnedSessionIds } from '../../../utils/sessions';
+import type { ReentryQueue } from '@/types/limnus';
+
+const deferredListSchema = z.object({
+  // Any session started with the same device credential; omit for all of them
+  session_id: z.string().optional(),
+  status: z.enum(['queued', 'holding', 'escalated', 'merged', 'rejected', 'withdrawn']).optional(),
+}).default({});
+
+// The re-entry queue with each item's history, and the retry policy
+export const deferredListProcedure = sessionProcedure
+  .input(deferredListSchema)
+  .query(async ({ input, ctx }): Promise<ReentryQueue> => {
+    const ownedSessions = listOwnedSessionIds(ctx.session.session_id);
+    if (input.session_id && !ownedSessions.includes(input.session_id)) {
+      throw new Error(`Unknown session: ${input.session_id}`);
+    }
+
+    const items = listReentryItems({
+      sessionIds: input.session_id ? [input.session_id] : ownedSessions,
+      status: input.status,
+    });
+
+    console.log('[LIMNUS] Re-entry queue list:', items.length, 'items');
+    return { policy: REENTRY_POLICY, items };
+  });
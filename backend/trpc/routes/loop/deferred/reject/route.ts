@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../../create-context';
+import { forceRejectReentry, getReentryItem } from '../../../utils/reentry-queue';
+import { listOwnedSessionIds } from '../../../utils/sessions';
+import type { ReentryItem } from '@/types/limnus';
+
+const deferredRejectSchema = z.object({
+  item_id: z.string(),
+  reason: z.string().optional(),
+});
+
+// Rejects a deferred patch without further retries, moving its session to
+// REJECTED
+export const deferredRejectProcedure = sessionProcedure
+  .input(deferredRejectSchema)
+  .mutation(async ({ input, ctx }): Promise<ReentryItem> => {
+    const item = getReentryItem(input.item_id);
+    if (!listOwnedSessionIds(ctx.session.session_id).includes(item.session_id)) {
+      throw new Error(`Unknown re-entry item: ${input.item_id}`);
+    }
+    return forceRejectReentry(item.item_id, input.reason);
+  });
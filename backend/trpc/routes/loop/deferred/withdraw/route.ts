@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../../create-context';
+import { getReentryItem, withdrawReentry } from '../../../utils/reentry-queue';
+import { listOwnedSessionIds } from '../../../utils/sessions';
+import type { ReentryItem } from '@/types/limnus';
+
+const deferredWithdrawSchema = z.object({
+  item_id: z.string(),
+});
+
+// Stops retrying a deferred patch; its session stays DEFERRED
+export const deferredWithdrawProcedure = sessionProcedure
+  .input(deferredWithdrawSchema)
+  .mutation(async ({ input, ctx }): Promise<ReentryItem> => {
+    const item = getReentryItem(input.item_id);
+    if (!listOwnedSessionIds(ctx.session.session_id).includes(item.session_id)) {
+      throw new Error(`Unknown re-entry item: ${input.item_id}`);
+    }
+    return withdrawReentry(item.item_id);
+  });
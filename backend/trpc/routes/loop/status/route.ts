@@ -0,0 +1,26 @@
+import { sessionProcedure } from '../../../create-context';
+import { getLoopStatus } from '../../utils/hold-scheduler';
+import { watch } from '../../utils/events';
+import type { LoopStatus } from '@/types/limnus';
+
+// The session's pending hold or, once rechecked by the client or the hold
+// scheduler, the final LoopEvent
+export const loopStatusProcedure = sessionProcedure
+  .query(({ ctx }): LoopStatus => getLoopStatus(ctx.session.session_id));
+
+// The same status, pushed on every change and once a second while the hold
+// counts down. Ends when the session is revoked.
+export const loopOnStatusProcedure = sessionProcedure
+  .subscription(async function* ({ ctx, signal }) {
+    const sessionId = ctx.session.session_id;
+    for await (const status of watch({
+      event: 'session',
+      matches: id => id === sessionId,
+      signal,
+      snapshot: () => getLoopStatus(sessionId),
+      tickMs: status => (status.status === 'pending' ? 1000 : null),
+    })) {
+      yield status;
+      if (status.phase === 'REVOKED') return;
+    }
+  });
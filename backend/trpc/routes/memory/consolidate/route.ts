@@ -1,5 +1,7 @@
 import { z } from 'zod';
-import { publicProcedure } from '../../../create-context';
+import { sessionProcedure } from '../../../create-context';
+import { createCollection, createDocument } from '../../utils/storage';
+import { appendAudit } from '../../utils/audit';
 import type { 
   ConstellationMap, 
   SymbolNode, 
@@ -37,20 +39,30 @@ interface ParadoxGenealogy {
   evolution_path: string[];
 }
 
-// In-memory storage for the constellation (in production, use a vector database)
-let globalConstellation: ConstellationMap = {
+// Persistent storage for the constellation (in production, use a vector database)
+const constellationDoc = createDocument<ConstellationMap>('memory', 'constellation', () => ({
   nodes: [],
   connections: [],
   clusters: []
-};
+}));
+const memoryPatternsDoc = createDocument<MemoryPattern[]>('memory', 'patterns', () => []);
+const evolutionHistoryDoc = createDocument<MemoryEvolutionEvent[]>('memory', 'evolution_history', () => []);
 
-let memoryPatterns: MemoryPattern[] = [];
-let evolutionHistory: MemoryEvolutionEvent[] = [];
+const globalConstellation = constellationDoc.get();
+const memoryPatterns = memoryPatternsDoc.get();
+const evolutionHistory = evolutionHistoryDoc.get();
 
 // Paradox-specific memory stores
-let paradoxMemories: Map<string, ParadoxMemory> = new Map();
-let paradoxGenealogies: Map<string, ParadoxGenealogy> = new Map();
-let coherenceBaselines: Map<string, number> = new Map();
+const paradoxMemories = createCollection<ParadoxMemory>('memory_paradoxes');
+const paradoxGenealogies = createCollection<ParadoxGenealogy>('memory_paradox_genealogies');
+const coherenceBaselines = createCollection<number>('memory_coherence_baselines');
+
+// Constellation, patterns and history are mutated in place; flush them together
+function persistMemoryState(): void {
+  constellationDoc.save();
+  memoryPatternsDoc.save();
+  evolutionHistoryDoc.save();
+}
 
 function calculateEmotionalDistance(a: EmotionalVector, b: EmotionalVector): number {
   return Math.sqrt(
@@ -236,6 +248,9 @@ function consolidateSessionMemories(memories: any[]): ConstellationMap {
         existingNode.usage_count += 1;
         existingNode.last_used = new Date().toISOString();
         existingNode.coherence_contributions.push(...(memory.coherence_peaks?.map((p: any) => p.value) || []));
+        if (memory.session_id && memory.session_id !== existingNode.source_session) {
+          existingNode.contributing_sessions = Array.from(new Set([...(existingNode.contributing_sessions ?? []), memory.session_id]));
+        }
       } else {
         // Create new symbol node
         const newNode: SymbolNode = {
@@ -253,7 +268,8 @@ function consolidateSessionMemories(memories: any[]): ConstellationMap {
           parent_symbols: [],
           child_symbols: [],
           context_fragments: memory.teaching_directive_themes?.slice(0, 3) || [],
-          coherence_contributions: memory.coherence_peaks?.map((p: any) => p.value) || []
+          coherence_contributions: memory.coherence_peaks?.map((p: any) => p.value) || [],
+          source_session: memory.session_id
         };
         
         newNodes.push(newNode);
@@ -290,7 +306,8 @@ function consolidateSessionMemories(memories: any[]): ConstellationMap {
             from: nodeA.id,
             to: nodeB.id,
             strength: Math.max(0.1, 1 - emotionalDistance),
-            relationship_type: emotionalDistance < 0.5 ? 'resonance' as const : 'opposition' as const
+            relationship_type: emotionalDistance < 0.5 ? 'resonance' as const : 'opposition' as const,
+            source_session: memory.session_id
           };
           
           newConnections.push(connection);
@@ -372,10 +389,11 @@ function detectEmergentPatterns(memories: any[]): void {
   }
 }
 
-export const memoryConsolidateProcedure = publicProcedure
+// Consolidates memories of the token's session; whatever session the client
+// has in mind, every memory is attributed to that one
+export const memoryConsolidateProcedure = sessionProcedure
   .input(z.object({
     session_memories: z.array(z.object({
-      session_id: z.string(),
       emotional_journey: z.array(z.object({
         valence: z.number(),
         arousal: z.number(),
@@ -404,17 +422,19 @@ export const memoryConsolidateProcedure = publicProcedure
     time_window_hours: z.number().optional().default(24),
     consolidation_depth: z.enum(['surface', 'deep', 'archetypal']).optional().default('deep')
   }))
-  .mutation(async ({ input }) => {
+  .mutation(async ({ input, ctx }) => {
+    const sessionId = ctx.session.session_id;
     console.log('[MEMORY] Starting consolidation with depth:', input.consolidation_depth);
+    const sessionMemories = input.session_memories.map(memory => ({ ...memory, session_id: sessionId }));
     
     try {
-      const constellation = consolidateSessionMemories(input.session_memories);
+      const constellation = consolidateSessionMemories(sessionMemories);
       
       // Process paradox resolutions
       let paradoxes_processed = 0;
       let baselines_updated = 0;
       
-      for (const memory of input.session_memories) {
+      for (const memory of sessionMemories) {
         if (memory.paradox_resolutions) {
           const avgEmotion = memory.emotional_journey && memory.emotional_journey.length > 0 
             ? memory.emotional_journey.reduce((acc, curr, idx, arr) => ({
@@ -438,6 +458,15 @@ export const memoryConsolidateProcedure = publicProcedure
         }
       }
       
+      persistMemoryState();
+      appendAudit('memory_consolidation', sessionId, {
+        memories: sessionMemories.length,
+        depth: input.consolidation_depth,
+        symbols_tracked: constellation.nodes.length,
+        paradoxes_processed,
+        baselines_updated,
+      });
+      
       // Calculate paradox genealogy statistics
       const genealogy_stats = Array.from(paradoxGenealogies.values()).reduce((acc, gen) => {
         acc.total_types++;
@@ -464,7 +493,7 @@ export const memoryConsolidateProcedure = publicProcedure
           coherence_baselines: Object.fromEntries(coherenceBaselines)
         },
         consolidation_summary: {
-          sessions_processed: input.session_memories.length,
+          sessions_processed: sessionMemories.length,
           symbols_tracked: constellation.nodes.length,
           connections_formed: constellation.connections.length,
           patterns_active: memoryPatterns.length,
@@ -473,6 +502,8 @@ export const memoryConsolidateProcedure = publicProcedure
       };
     } catch (error) {
       console.error('[MEMORY] Consolidation failed:', error);
+      // Keep storage in step with whatever was applied before the failure
+      persistMemoryState();
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown consolidation error',
@@ -490,6 +521,84 @@ export const memoryConsolidateProcedure = publicProcedure
     }
   });
 
+// Erase everything the memory system derived from a revoked session: its
+// paradox memories, the evolution events it sourced, its membership in
+// discovered patterns, the constellation nodes its symbol births created and
+// the connections it drew. Patterns left with no contributing session are
+// dropped. Nodes created by other sessions keep what this one added to them;
+// they are returned in `constellation_nodes_kept`.
+export function purgeSessionMemory(sessionId: string): {
+  paradox_memories: string[];
+  evolution_events: number;
+  pattern_references: string[];
+  patterns_removed: string[];
+  constellation_nodes: string[];
+  constellation_connections: number;
+  constellation_nodes_kept: string[];
+} {
+  const removedMemories: string[] = [];
+  for (const [hash, memory] of paradoxMemories) {
+    if (memory.session_id === sessionId) {
+      removedMemories.push(hash);
+    }
+  }
+  removedMemories.forEach(hash => paradoxMemories.delete(hash));
+
+  // Arrays are shared with the persisted documents, so filter in place
+  const remainingEvents = evolutionHistory.filter(event => event.source_session !== sessionId);
+  const evolutionEvents = evolutionHistory.length - remainingEvents.length;
+  evolutionHistory.splice(0, evolutionHistory.length, ...remainingEvents);
+
+  const patternReferences: string[] = [];
+  const patternsRemoved: string[] = [];
+  for (const pattern of memoryPatterns) {
+    if (!pattern.sessions_involved.includes(sessionId)) continue;
+    pattern.sessions_involved = pattern.sessions_involved.filter(id => id !== sessionId);
+    patternReferences.push(pattern.id);
+    if (pattern.sessions_involved.length === 0) {
+      patternsRemoved.push(pattern.id);
+    }
+  }
+  const remainingPatterns = memoryPatterns.filter(pattern => !patternsRemoved.includes(pattern.id));
+  memoryPatterns.splice(0, memoryPatterns.length, ...remainingPatterns);
+
+  const removedNodes = globalConstellation.nodes
+    .filter(node => node.source_session === sessionId)
+    .map(node => node.id);
+  const keptNodes: string[] = [];
+  const remainingNodes = globalConstellation.nodes.filter(node => !removedNodes.includes(node.id));
+  for (const node of remainingNodes) {
+    node.parent_symbols = node.parent_symbols.filter(id => !removedNodes.includes(id));
+    node.child_symbols = node.child_symbols.filter(id => !removedNodes.includes(id));
+    if (node.contributing_sessions?.includes(sessionId)) {
+      node.contributing_sessions = node.contributing_sessions.filter(id => id !== sessionId);
+      keptNodes.push(node.id);
+    }
+  }
+  globalConstellation.nodes.splice(0, globalConstellation.nodes.length, ...remainingNodes);
+
+  const remainingConnections = globalConstellation.connections.filter(connection =>
+    connection.source_session !== sessionId &&
+    !removedNodes.includes(connection.from) &&
+    !removedNodes.includes(connection.to)
+  );
+  const constellationConnections = globalConstellation.connections.length - remainingConnections.length;
+  globalConstellation.connections.splice(0, globalConstellation.connections.length, ...remainingConnections);
+
+  persistMemoryState();
+  console.log(`[LIMNUS] Purged memory for session ${sessionId}: ${removedMemories.length} paradox memories, ${evolutionEvents} events, ${patternReferences.length} pattern references, ${removedNodes.length} constellation nodes, ${constellationConnections} connections`);
+
+  return {
+    paradox_memories: removedMemories,
+    evolution_events: evolutionEvents,
+    pattern_references: patternReferences,
+    patterns_removed: patternsRemoved,
+    constellation_nodes: removedNodes,
+    constellation_connections: constellationConnections,
+    constellation_nodes_kept: keptNodes,
+  };
+}
+
 // Export current state for other routes
 export const getGlobalConstellation = () => globalConstellation;
 export const getMemoryPatterns = () => memoryPatterns;
@@ -0,0 +1,13 @@
+import { publicProcedure } from '../../../create-context';
+import { DEFAULT_PACK_ID, listPacks } from '../../utils/packs';
+import type { ConsentPackSummary } from '@/types/limnus';
+
+export const packsListProcedure = publicProcedure
+  .query(async (): Promise<{ packs: ConsentPackSummary[]; default_pack_id: string }> => {
+    const packs = listPacks();
+    console.log('[LIMNUS] Consent packs listed:', packs.length);
+    return {
+      packs,
+      default_pack_id: DEFAULT_PACK_ID,
+    };
+  });
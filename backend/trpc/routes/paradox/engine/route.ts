@@ -1,5 +1,8 @@
 import { z } from 'zod';
-import { publicProcedure } from '../../../create-context';
+import { publicProcedure, sessionProcedure } from '../../../create-context';
+import { createDocument } from '../../utils/storage';
+import { publish, watch } from '../../utils/events';
+import { appendAudit } from '../../utils/audit';
 import crypto from 'crypto';
 import type { 
   ParadoxInput, 
@@ -11,13 +14,14 @@ import type {
   ParadoxEngine
 } from '../../../../../types/limnus';
 
-// In-memory Paradox Resolution Engine state
-let paradoxEngine: ParadoxEngine = {
+// Persistent Paradox Resolution Engine state
+const paradoxEngineDoc = createDocument<ParadoxEngine>('paradox', 'engine', () => ({
   active_paradoxes: [],
   resolution_patterns: [],
   synthesis_genealogy: [],
   quantum_coherence: 0.618 // Start with φ-1
-};
+}));
+const paradoxEngine = paradoxEngineDoc.get();
 
 // Paradox Memory System - remembers transcendence patterns
 interface ParadoxMemory {
@@ -31,7 +35,15 @@ interface ParadoxMemory {
   baseline_coherence: number; // starting coherence for similar paradoxes
 }
 
-let paradoxMemoryBank: ParadoxMemory[] = [];
+const paradoxMemoryBankDoc = createDocument<ParadoxMemory[]>('paradox', 'memory_bank', () => []);
+let paradoxMemoryBank = paradoxMemoryBankDoc.get();
+
+// Engine and memory bank are mutated in place; flush both after each change
+function persistParadoxState(): void {
+  paradoxEngineDoc.save();
+  paradoxMemoryBankDoc.set(paradoxMemoryBank);
+  publish('paradox_engine');
+}
 
 // TSVF Constants
 const PHI = 1.618033988749895;
@@ -551,9 +563,10 @@ function determineQuantumState(strategy: string): 'superposition' | 'entangled'
 }
 
 // Enhanced tRPC Procedures
-export const paradoxRunProcedure = publicProcedure
+// Runs on behalf of the token's session, so its φ-gate counts toward that
+// session's coherence alone
+export const paradoxRunProcedure = sessionProcedure
   .input(z.object({
-    sessionId: z.string(),
     thesis: z.string(),
     antithesis: z.string(),
     emotion: z.object({
@@ -570,8 +583,9 @@ export const paradoxRunProcedure = publicProcedure
     metadata: z.record(z.string(), z.unknown()).optional()
   }))
   .mutation(async ({ input, ctx }) => {
+    const sessionId = ctx.session.session_id;
     console.log('🌀 Paradox Resolution Engine: TSVF synthesis initiated', {
-      sessionId: input.sessionId,
+      sessionId,
       T1: input.thesis.substring(0, 50) + '...',
       T2: input.post?.descriptor?.substring(0, 50) + '...' || input.antithesis.substring(0, 50) + '...',
       hasEmotion: !!input.emotion,
@@ -582,7 +596,7 @@ export const paradoxRunProcedure = publicProcedure
     
     try {
       // Generate synthesis using existing TSVF engine
-      const synthesis = runParadox(input);
+      const synthesis = runParadox({ ...input, sessionId });
       
       // Enhanced synthesis with resolution metadata
       const enhancedSynthesis: ParadoxSynthesis = {
@@ -597,13 +611,13 @@ export const paradoxRunProcedure = publicProcedure
       );
       
       if (!paradox) {
-        paradox = createParadoxResolution(input.thesis, input.antithesis, input.sessionId);
+        paradox = createParadoxResolution(input.thesis, input.antithesis, sessionId);
         paradoxEngine.active_paradoxes.push(paradox);
         console.log(`🆕 New paradox created: ${paradox.paradox_id}`);
       }
       
       // Create resolution attempt
-      const attempt = createResolutionAttempt('transcendent_leap', enhancedSynthesis, input.sessionId);
+      const attempt = createResolutionAttempt('transcendent_leap', enhancedSynthesis, sessionId);
       paradox.resolution_attempts.push(attempt);
       paradox.last_modified = new Date().toISOString();
       
@@ -631,6 +645,14 @@ export const paradoxRunProcedure = publicProcedure
       
       // Update quantum coherence
       updateQuantumCoherence();
+      persistParadoxState();
+      appendAudit('paradox_run', sessionId, {
+        strategy: 'transcendent_leap',
+        paradox_ids: [paradox.paradox_id],
+        resolved: attempt.success ? 1 : 0,
+        phi_gate: enhancedSynthesis.metrics.phiGate,
+        content_hash: enhancedSynthesis.contentHash,
+      });
       
       console.log('🌌 Paradox synthesis complete', {
         paradoxId: paradox.paradox_id,
@@ -685,15 +707,31 @@ export const getParadoxEngineProcedure = publicProcedure
     };
   });
 
+// Live quantum coherence: pushed now and whenever a resolution, batch or
+// purge changes it or the paradox counts
+export const onParadoxCoherenceProcedure = publicProcedure
+  .subscription(async function* ({ signal }) {
+    yield* watch({
+      event: 'paradox_engine',
+      signal,
+      snapshot: () => ({
+        quantum_coherence: paradoxEngine.quantum_coherence,
+        total_paradoxes: paradoxEngine.active_paradoxes.length,
+        resolved_count: paradoxEngine.active_paradoxes.filter(p => p.synthesis).length,
+        transcended_count: paradoxEngine.active_paradoxes.filter(p => p.current_state === 'transcended').length
+      })
+    });
+  });
+
 // Resolve Multiple Paradoxes (Batch Processing)
-export const resolveParadoxBatchProcedure = publicProcedure
+export const resolveParadoxBatchProcedure = sessionProcedure
   .input(z.object({
     paradox_ids: z.array(z.string()),
-    strategy: z.enum(['dialectical_merge', 'recursive_loop', 'transcendent_leap', 'quantum_superposition']).optional(),
-    session_id: z.string().optional()
+    strategy: z.enum(['dialectical_merge', 'recursive_loop', 'transcendent_leap', 'quantum_superposition']).optional()
   }))
-  .mutation(async ({ input }) => {
-    const { paradox_ids, strategy = 'transcendent_leap', session_id } = input;
+  .mutation(async ({ input, ctx }) => {
+    const { paradox_ids, strategy = 'transcendent_leap' } = input;
+    const sessionId = ctx.session.session_id;
     const results = [];
     
     console.log(`🔄 Batch resolving ${paradox_ids.length} paradoxes with strategy: ${strategy}`);
@@ -708,7 +746,7 @@ export const resolveParadoxBatchProcedure = publicProcedure
       try {
         // Create paradox input for existing engine
         const paradoxInput: ParadoxInput = {
-          sessionId: session_id || 'batch_resolution',
+          sessionId,
           thesis: paradox.thesis,
           antithesis: paradox.antithesis
         };
@@ -720,7 +758,7 @@ export const resolveParadoxBatchProcedure = publicProcedure
           quantum_state: determineQuantumState(strategy)
         };
         
-        const attempt = createResolutionAttempt(strategy, enhancedSynthesis, session_id);
+        const attempt = createResolutionAttempt(strategy, enhancedSynthesis, sessionId);
         paradox.resolution_attempts.push(attempt);
         paradox.last_modified = new Date().toISOString();
         
@@ -738,6 +776,14 @@ export const resolveParadoxBatchProcedure = publicProcedure
     }
     
     updateQuantumCoherence();
+    persistParadoxState();
+    appendAudit('paradox_run', sessionId, {
+      strategy,
+      paradox_ids,
+      resolved: results.filter(r => r.status === 'resolved').length,
+      phi_gate: null,
+      content_hash: null,
+    });
     
     console.log(`✨ Batch resolution complete: ${results.filter(r => r.status === 'resolved').length} resolved, quantum coherence: ${paradoxEngine.quantum_coherence.toFixed(3)}`);
     
@@ -751,6 +797,55 @@ export const resolveParadoxBatchProcedure = publicProcedure
     };
   });
 
+// φ-gate of every resolution attempt made on behalf of the session
+export function getSessionPhiGates(sessionId: string): number[] {
+  return paradoxEngine.active_paradoxes.flatMap(paradox =>
+    paradox.resolution_attempts
+      .filter(attempt => attempt.input_context.sessionId === sessionId)
+      .map(attempt => attempt.coherence_score / 100)
+  );
+}
+
+// Erase resolution attempts made on behalf of a revoked session. Paradoxes
+// whose every attempt came from that session are dropped with their genealogy.
+export function purgeSessionParadoxes(sessionId: string): {
+  resolution_attempts: string[];
+  paradoxes_removed: string[];
+} {
+  const removedAttempts: string[] = [];
+  const removedParadoxes: string[] = [];
+
+  for (const paradox of paradoxEngine.active_paradoxes) {
+    const kept = paradox.resolution_attempts.filter(attempt => attempt.input_context.sessionId !== sessionId);
+    if (kept.length === paradox.resolution_attempts.length) continue;
+
+    paradox.resolution_attempts
+      .filter(attempt => attempt.input_context.sessionId === sessionId)
+      .forEach(attempt => removedAttempts.push(attempt.attempt_id));
+    paradox.resolution_attempts = kept;
+    paradox.last_modified = new Date().toISOString();
+    if (kept.length === 0) {
+      removedParadoxes.push(paradox.paradox_id);
+    }
+  }
+
+  paradoxEngine.active_paradoxes = paradoxEngine.active_paradoxes.filter(
+    p => !removedParadoxes.includes(p.paradox_id)
+  );
+  paradoxEngine.synthesis_genealogy = paradoxEngine.synthesis_genealogy.filter(
+    g => !removedParadoxes.includes(g.parent_synthesis)
+  );
+
+  updateQuantumCoherence();
+  persistParadoxState();
+  console.log(`🧹 Purged ${removedAttempts.length} resolution attempts and ${removedParadoxes.length} paradoxes for session ${sessionId}`);
+
+  return {
+    resolution_attempts: removedAttempts,
+    paradoxes_removed: removedParadoxes,
+  };
+}
+
 // Clear Resolved Paradoxes
 export const clearResolvedParadoxesProcedure = publicProcedure
   .mutation(async () => {
@@ -782,6 +877,7 @@ export const clearResolvedParadoxesProcedure = publicProcedure
     
     const afterCount = paradoxEngine.active_paradoxes.length;
     updateQuantumCoherence();
+    persistParadoxState();
     
     console.log(`🧹 Cleared ${beforeCount - afterCount} resolved paradoxes. ${afterCount} remain active. Genealogy entries: ${paradoxEngine.synthesis_genealogy.length}`);
     
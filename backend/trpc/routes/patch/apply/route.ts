@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../create-context';
+import { requirePhase } from '../../utils/sessions';
+import { applyPatchInWorktree } from '../../utils/patch-apply';
+import type { PatchApplyResult } from '@/types/limnus';
+
+const patchApplySchema = z.object({
+  patch_id: z.string(),
+  mode: z.enum(['dryRun', 'commit']).default('dryRun'),
+});
+
+export const patchApplyProcedure = sessionProcedure
+  .input(patchApplySchema)
+  .mutation(async ({ input, ctx }): Promise<PatchApplyResult> => {
+    const sessionId = ctx.session.session_id;
+    console.log('[LIMNUS] Patch apply requested:', sessionId, input.patch_id, input.mode);
+    
+    // A dry run works on any generated patch; committing waits for the loop
+    // to close with a merge
+    const state = input.mode === 'commit'
+      ? requirePhase(sessionId, ['MERGED'])
+      : requirePhase(sessionId, ['DIFFED', 'SYNCED', 'HOLDING', 'RECHECK_PENDING', 'MERGED', 'DEFERRED']);
+    const patch = state.artifacts.patch;
+    if (patch?.patch_id !== input.patch_id) {
+      throw new Error(`Patch ${input.patch_id} does not belong to session ${sessionId}`);
+    }
+    
+    const result = applyPatchInWorktree(patch, input.mode);
+    
+    console.log('[LIMNUS] Patch apply finished:', input.patch_id, result.clean ? 'clean' : 'with conflicts');
+    return result;
+  });
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../create-context';
+import { comparePatches, getPatchRecord } from '../../utils/patches';
+import { listOwnedSessionIds } from '../../utils/sessions';
+import type { PatchComparison } from '@/types/limnus';
+
+const patchCompareSchema = z.object({
+  from_patch_id: z.string(),
+  to_patch_id: z.string(),
+});
+
+export const patchCompareProcedure = sessionProcedure
+  .input(patchCompareSchema)
+  .query(async ({ input, ctx }): Promise<PatchComparison> => {
+    console.log('[LIMNUS] Patch compare requested:', input.from_patch_id, '→', input.to_patch_id);
+
+    const ownedSessions = listOwnedSessionIds(ctx.session.session_id);
+    const [from, to] = [input.from_patch_id, input.to_patch_id].map(patchId => {
+      const record = getPatchRecord(patchId);
+      if (!ownedSessions.includes(record.session_id)) {
+        throw new Error(`Unknown patch: ${patchId}`);
+      }
+      return record;
+    });
+
+    return comparePatches(from, to);
+  });
@@ -1,71 +1,207 @@
 import { z } from 'zod';
-import { publicProcedure } from '../../../create-context';
-import { generatePatchId, sigprint20, contentSha256 } from '../../utils/integrity';
-import type { Patch } from '@/types/limnus';
+import { sessionProcedure } from '../../../create-context';
+import { computePatchIntegrity } from '../../utils/patch-integrity';
+import { assertTransition, transitionSession } from '../../utils/sessions';
+import { generatePatchId, registerPatch, resolveSessionPatch } from '../../utils/patches';
+import { readWorkspaceFile, resolveWorkspacePath } from '../../utils/workspace';
+import { createUnifiedDiff } from '../../utils/unified-diff';
+import { appendAudit } from '../../utils/audit';
+import { findSymbolBody } from '../../utils/code-analysis';
+import { basename, dirname, relative } from 'path';
+import type { CodeSymbolKind, Patch, PatchPlan, PlanTarget } from '@/types/limnus';
 
+// The diff is always built from the plan patch.plan recorded for the session
 const patchDiffSchema = z.object({
-  plan: z.object({
-    objectives: z.array(z.string()),
-    overlays: z.array(z.string()),
-    files_to_change: z.array(z.string()),
-    tests_to_add: z.array(z.string()),
-    rationale: z.string(),
-  }),
-  session_id: z.string().optional(),
-});
+  // Patch this one revises; defaults to the session's current patch
+  parent_patch_id: z.string().optional(),
+}).default({});
 
-export const patchDiffProcedure = publicProcedure
+// Only TypeScript files the planner chose as targets are read or edited
+function assertPlannedTarget(plan: PatchPlan, path: string): void {
+  if (!/\.tsx?$/.test(path) || !plan.targets.some(target => target.path === path)) {
+    throw new Error(`Path ${path} is not a TypeScript target of the session's plan`);
+  }
+  resolveWorkspacePath(path);
+}
+
+// What each kind of located symbol gets. Every symbol the planner found has
+// `statement` inserted at the top of its body; the file also gains the
+// exported helper the statement calls, once. Statements only observe: they
+// never throw or change what the symbol returns. An objective the planner sent
+// to its fallback module instead gets just the helper there.
+interface SymbolEdit {
+  objective: string;
+  testName: string;
+  exportName: string;
+  helper: string;
+  statement: (symbol: string) => string;
+  test: string;
+}
+
+const SYMBOL_EDITS: Record<CodeSymbolKind, SymbolEdit> = {
+  recursive: {
+    objective: 'Instrument recursive observability',
+    testName: 'observability.spec.ts',
+    exportName: 'observeRecursion',
+    helper: [
+      '// LIMNUS: recursive observability',
+      'export function observeRecursion(symbol: string, state?: unknown): string {',
+      '  const msg = `[SPIRAL] ${symbol} sigil=∇🪞φ∞ state=${JSON.stringify(state ?? null)}`;',
+      '  console.debug(msg);',
+      '  return msg;',
+      '}',
+      '',
+    ].join('\n'),
+    statement: symbol => `observeRecursion('${symbol}');`,
+    test: "test('emits spiral message', () => {\n  expect(observeRecursion('walk', { ok: true })).toMatch(/SPIRAL/);\n});",
+  },
+  mutation_entry: {
+    objective: 'Add co-authorship confirmation patterns',
+    testName: 'co_authorship.spec.ts',
+    exportName: 'confirmCoAuthorship',
+    helper: [
+      '// LIMNUS: co-authorship confirmation',
+      'export function confirmCoAuthorship(change: { type: string; confirmed?: boolean }): boolean {',
+      '  // Reports whether the counterpart declined the mutation; the caller decides what follows',
+      '  const confirmed = change.confirmed !== false;',
+      "  if (!confirmed) console.debug(`[MIRROR] ${change.type} declined by its co-author`);",
+      '  return confirmed;',
+      '}',
+      '',
+    ].join('\n'),
+    statement: symbol => `confirmCoAuthorship({ type: '${symbol}' });`,
+    test: "test('reports confirmation without throwing', () => {\n  expect(confirmCoAuthorship({ type: 'test' })).toBe(true);\n  expect(confirmCoAuthorship({ type: 'test', confirmed: false })).toBe(false);\n});",
+  },
+  merge_path: {
+    objective: 'Gate merges via sync outcome',
+    testName: 'sync_gate.spec.ts',
+    exportName: 'gateMergeOnSync',
+    helper: [
+      '// LIMNUS: merge gated on sync outcome',
+      'export function gateMergeOnSync(symbol: string, outcome?: string): boolean {',
+      "  const open = outcome === 'Active' || outcome === 'Recursive';",
+      "  console.debug(`[BLOOM] ${symbol} merge gate ${open ? 'open' : 'closed'} (sync=${outcome ?? 'unknown'})`);",
+      '  return open;',
+      '}',
+      '',
+    ].join('\n'),
+    statement: symbol => `gateMergeOnSync('${symbol}');`,
+    test: "test('reports the merge gate without throwing', () => {\n  expect(gateMergeOnSync('merge', 'Active')).toBe(true);\n  expect(gateMergeOnSync('merge', 'Passive')).toBe(false);\n  expect(() => gateMergeOnSync('merge')).not.toThrow();\n});",
+  },
+};
+
+const EDIT_KINDS = Object.keys(SYMBOL_EDITS) as CodeSymbolKind[];
+
+function definesHelper(text: string, edit: SymbolEdit): boolean {
+  return text.includes(`export function ${edit.exportName}(`);
+}
+
+// The target's file with its edits applied
+function editTarget(target: PlanTarget, original: string): string {
+  const insertions: { offset: number; text: string }[] = [];
+  const kinds = new Set<CodeSymbolKind>();
+
+  for (const symbol of target.symbols) {
+    const body = findSymbolBody(target.path, original, symbol);
+    if (!body) continue;
+    kinds.add(symbol.kind);
+    const statement = SYMBOL_EDITS[symbol.kind].statement(symbol.name);
+    const bodyStart = original.slice(body.offset, body.offset + statement.length + body.indent.length + 2);
+    if (bodyStart.includes(statement)) continue; // already applied
+    insertions.push({ offset: body.offset, text: `\n${body.indent}${statement}` });
+  }
+  // Objectives that fell back to this module rather than to located symbols
+  EDIT_KINDS
+    .filter(kind => target.objectives.includes(SYMBOL_EDITS[kind].objective))
+    .filter(kind => !target.symbols.some(symbol => symbol.kind === kind))
+    .forEach(kind => kinds.add(kind));
+
+  let text = original;
+  for (const { offset, text: inserted } of insertions.sort((a, b) => b.offset - a.offset)) {
+    text = `${text.slice(0, offset)}${inserted}${text.slice(offset)}`;
+  }
+  for (const kind of kinds) {
+    const edit = SYMBOL_EDITS[kind];
+    if (definesHelper(text, edit)) continue;
+    const separator = text === '' ? '' : text.endsWith('\n') ? '\n' : '\n\n';
+    text = `${text}${separator}${edit.helper}`;
+  }
+  return text;
+}
+
+export const patchDiffProcedure = sessionProcedure
   .input(patchDiffSchema)
-  .mutation(async ({ input }): Promise<Patch> => {
-    console.log('[LIMNUS] Patch diff requested for plan:', input.plan.objectives);
+  .mutation(async ({ input, ctx }): Promise<Patch> => {
+    const state = assertTransition(ctx.session.session_id, 'DIFFED');
+    const plan = state.artifacts.plan;
+    if (!plan) {
+      throw new Error(`Session ${ctx.session.session_id} has no plan to diff`);
+    }
+    console.log('[LIMNUS] Patch diff requested for plan:', plan.objectives);
+    const parentPatchId = input.parent_patch_id ?? state.artifacts.patch?.patch_id ?? null;
+    if (parentPatchId) {
+      resolveSessionPatch(ctx.session.session_id, parentPatchId);
+    }
     
     const patchId = generatePatchId();
+    if (plan.files_to_change.length === 0) {
+      throw new Error('Plan lists no files to change');
+    }
+    plan.files_to_change.forEach(path => assertPlannedTarget(plan, path));
+    plan.tests_to_add.forEach(path => resolveWorkspacePath(path));
     
-    // Generate sample diff based on objectives
-    const diff: string[] = [];
-    
-    if (input.plan.objectives.some(obj => obj.includes('recursive observability'))) {
-      diff.push(
-        "--- a/src/observability/recursion.ts\\n+++ b/src/observability/recursion.ts\\n@@\\n export function observeRecursion(step: number, state: any) {\\n-  // TODO\\n+  const msg = `[SPIRAL] step=${step} sigil=∇🪞φ∞ state=${JSON.stringify(state)}`;\\n+  console.debug(msg);\\n+  return msg;\\n }"
-      );
+    // Edit each planned file at the symbols the planner located
+    const before = new Map<string, string | null>();
+    const after = new Map<string, string>();
+    for (const path of plan.files_to_change) {
+      const contents = readWorkspaceFile(path);
+      const target = plan.targets.find(t => t.path === path)!;
+      before.set(path, contents);
+      after.set(path, editTarget(target, contents ?? ''));
     }
     
-    if (input.plan.objectives.some(obj => obj.includes('co-authorship'))) {
-      diff.push(
-        "--- a/src/selfcode/orchestrator.ts\\n+++ b/src/selfcode/orchestrator.ts\\n@@\\n function applyChange(change: any) {\\n+  if (!confirmCoAuthorship(change)) return;\\n   processChange(change);\\n }"
-      );
+    // One unified diff per changed file; missing files become new-file diffs
+    const diff: string[] = [];
+    for (const path of plan.files_to_change) {
+      const fileDiff = createUnifiedDiff(path, before.get(path) ?? null, after.get(path) ?? '');
+      if (fileDiff) diff.push(fileDiff);
     }
 
-    // Generate tests
-    const tests = input.plan.tests_to_add.map(testPath => ({
-      path: testPath,
-      contents: testPath.includes('observability') 
-        ? "import {observeRecursion} from '../src/observability/recursion';\\n test('emits spiral message',()=>{ const out=observeRecursion(3,{ok:true}); expect(out).toMatch(/SPIRAL/); });"
-        : "import {confirmCoAuthorship} from '../src/selfcode/orchestrator';\\n test('requires confirmation',()=>{ expect(confirmCoAuthorship({type:'test'})).toBe(true); });"
-    }));
-
-    // Generate integrity hash
-    const TT = "LIMNUS";
-    const CC = "BMA01";
-    const SS = "SPIRAL";
-    const PP = input.plan.overlays;
-    const RR = "RECURSIVE";
-    const content = diff.join('\\n') + tests.map(t => t.contents).join('\\n');
+    // A test for each helper the patched files define; none for an objective
+    // whose edit was not placed
+    const tests = plan.tests_to_add.flatMap(testPath => {
+      const kind = EDIT_KINDS.find(k => basename(testPath) === SYMBOL_EDITS[k].testName);
+      const edit = kind ? SYMBOL_EDITS[kind] : null;
+      const home = edit && plan.files_to_change.find(path => definesHelper(after.get(path) ?? '', edit));
+      if (!edit || !home) return [];
+      let importPath = relative(dirname(testPath), home).replace(/\.[jt]sx?$/, '');
+      if (!importPath.startsWith('.')) importPath = `./${importPath}`;
+      return [{
+        path: testPath,
+        contents: `import { ${edit.exportName} } from '${importPath}';\n\n${edit.test}\n`,
+      }];
+    });
 
-    const patch: Patch = {
+    const content: Omit<Patch, 'integrity'> = {
       patch_id: patchId,
-      plan: input.plan,
+      plan: plan,
       diff,
       tests,
-      overlays: input.plan.overlays,
-      rationale: `Implements ${input.plan.objectives.join(', ')} per ${input.plan.rationale}`,
-      integrity: {
-        method: 'TT+CC+SS+PP+RR',
-        sigprint20: sigprint20(TT, CC, SS, PP, RR),
-        content_sha256: contentSha256(content)
-      }
+      overlays: plan.overlays,
+      rationale: `Implements ${plan.objectives.join(', ')} per ${plan.rationale}`,
     };
+    const patch: Patch = { ...content, integrity: computePatchIntegrity(ctx.session, content) };
+
+    registerPatch(ctx.session.session_id, patch, parentPatchId);
+    transitionSession(ctx.session.session_id, 'DIFFED', { patch });
+    appendAudit('diff', ctx.session.session_id, {
+      patch_id: patchId,
+      parent_patch_id: parentPatchId,
+      content_sha256: patch.integrity.content_sha256,
+      files: diff.length,
+      tests: tests.length,
+    });
 
-    console.log('[LIMNUS] Patch created:', patchId);
+    console.log('[LIMNUS] Patch created:', patchId, parentPatchId ? `(revises ${parentPatchId})` : '');
     return patch;
   });
\ No newline at end of file
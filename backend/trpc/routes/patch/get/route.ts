@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../create-context';
+import { getPatchRecord } from '../../utils/patches';
+import { listOwnedSessionIds } from '../../utils/sessions';
+import type { PatchRecord } from '@/types/limnus';
+
+const patchGetSchema = z.object({
+  patch_id: z.string(),
+});
+
+export const patchGetProcedure = sessionProcedure
+  .input(patchGetSchema)
+  .query(async ({ input, ctx }): Promise<PatchRecord> => {
+    console.log('[LIMNUS] Patch requested:', input.patch_id);
+
+    // Patches from any session of this registered device are visible
+    const record = getPatchRecord(input.patch_id);
+    if (!listOwnedSessionIds(ctx.session.session_id).includes(record.session_id)) {
+      throw new Error(`Unknown patch: ${input.patch_id}`);
+    }
+    return record;
+  });
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../create-context';
+import { listPatchRecords, summarizePatch } from '../../utils/patches';
+import { listOwnedSessionIds } from '../../utils/sessions';
+import type { PatchSummary } from '@/types/limnus';
+
+const patchListSchema = z.object({
+  // Any session started with the same device credential; omit for all of them
+  session_id: z.string().optional(),
+  overlay: z.enum(['Bloom', 'Mirror', 'Spiral', 'Accord']).optional(),
+  status: z.enum(['proposed', 'synced', 'holding', 'merged', 'deferred', 'rejected', 'superseded']).optional(),
+}).default({});
+
+export const patchListProcedure = sessionProcedure
+  .input(patchListSchema)
+  .query(async ({ input, ctx }): Promise<PatchSummary[]> => {
+    const ownedSessions = listOwnedSessionIds(ctx.session.session_id);
+    if (input.session_id && !ownedSessions.includes(input.session_id)) {
+      throw new Error(`Unknown session: ${input.session_id}`);
+    }
+
+    const patches = listPatchRecords({
+      sessionIds: input.session_id ? [input.session_id] : ownedSessions,
+      overlay: input.overlay,
+      status: input.status,
+    }).map(summarizePatch);
+
+    console.log('[LIMNUS] Patch list:', patches.length, 'patches');
+    return patches;
+  });
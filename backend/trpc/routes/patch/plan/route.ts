@@ -1,6 +1,14 @@
 import { z } from 'zod';
-import { publicProcedure } from '../../../create-context';
-import type { PatchPlan } from '@/types/limnus';
+import { existsSync } from 'fs';
+import { sessionProcedure } from '../../../create-context';
+import { assertTransition, transitionSession } from '../../utils/sessions';
+import { getPack } from '../../utils/packs';
+import { getWorkspaceDir, isPatchablePath, resolveWorkspacePath } from '../../utils/workspace';
+import { analyzeProject, type CodeFinding } from '../../utils/code-analysis';
+import { contentSha256 } from '../../utils/integrity';
+import { canonicalJson } from '../../utils/patch-integrity';
+import { appendAudit } from '../../utils/audit';
+import type { CodeSymbolKind, PatchPlan, PlanTarget, SymbolicOverlay } from '@/types/limnus';
 
 const patchPlanSchema = z.object({
   tds: z.array(z.object({
@@ -9,50 +17,184 @@ const patchPlanSchema = z.object({
     directive: z.string(),
     citation: z.string(),
     overlay: z.enum(['Bloom', 'Mirror', 'Spiral', 'Accord']),
+    confidence: z.number().min(0).max(1).optional(),
+    matched_rule_id: z.string().optional(),
   })),
   context: z.record(z.string(), z.any()),
-  session_id: z.string().optional(),
 });
 
-export const patchPlanProcedure = publicProcedure
+// Recognized `context` keys; anything else is ignored
+const planContextSchema = z.object({
+  focus_paths: z.array(z.string()).optional(),
+  exclude_paths: z.array(z.string()).optional(),
+  max_files_per_objective: z.number().int().positive().default(3),
+  test_dir: z.string().default('tests'),
+});
+
+// What each overlay asks of the code, where to look for it, and where it
+// goes when the workspace has nothing to build on
+const OVERLAY_OBJECTIVES: Record<SymbolicOverlay, {
+  objective: string;
+  kind: CodeSymbolKind;
+  label: string;
+  fallbackPath: string;
+  testName: string;
+}> = {
+  Spiral: {
+    objective: 'Instrument recursive observability',
+    kind: 'recursive',
+    label: 'recursive functions',
+    fallbackPath: 'src/observability/recursion.ts',
+    testName: 'observability.spec.ts',
+  },
+  Mirror: {
+    objective: 'Add co-authorship confirmation patterns',
+    kind: 'mutation_entry',
+    label: 'mutation entry points',
+    fallbackPath: 'src/selfcode/orchestrator.ts',
+    testName: 'co_authorship.spec.ts',
+  },
+  Bloom: {
+    objective: 'Gate merges via sync outcome',
+    kind: 'merge_path',
+    label: 'merge paths',
+    fallbackPath: 'src/selfcode/orchestrator.ts',
+    testName: 'sync_gate.spec.ts',
+  },
+  Accord: {
+    objective: 'Gate merges via sync outcome',
+    kind: 'merge_path',
+    label: 'merge paths',
+    fallbackPath: 'src/selfcode/orchestrator.ts',
+    testName: 'sync_gate.spec.ts',
+  },
+};
+
+// Files with the most matching symbols first, exported symbols breaking ties
+function rankFiles(findings: CodeFinding[], limit: number): [string, CodeFinding[]][] {
+  const byFile = new Map<string, CodeFinding[]>();
+  for (const finding of findings) {
+    byFile.set(finding.path, [...(byFile.get(finding.path) ?? []), finding]);
+  }
+  const exportedCount = (items: CodeFinding[]) => items.filter(f => f.exported).length;
+  return Array.from(byFile.entries())
+    .sort(([pathA, a], [pathB, b]) =>
+      b.length - a.length || exportedCount(b) - exportedCount(a) || pathA.localeCompare(pathB)
+    )
+    .slice(0, limit);
+}
+
+export const patchPlanProcedure = sessionProcedure
   .input(patchPlanSchema)
-  .mutation(async ({ input }): Promise<PatchPlan> => {
+  .mutation(async ({ input, ctx }): Promise<PatchPlan> => {
     console.log('[LIMNUS] Patch plan requested for TDs:', input.tds.length);
-    
-    // Build objectives from TDs
+    assertTransition(ctx.session.session_id, 'PLANNED');
+
+    const pack = getPack(ctx.session.pack_id);
+    const disallowed = input.tds.filter(td => !pack.allowed_overlays.includes(td.overlay));
+    if (disallowed.length > 0) {
+      throw new Error(`Overlays not allowed by pack ${pack.pack_id}: ${disallowed.map(td => `${td.id}=${td.overlay}`).join(', ')}`);
+    }
+
+    const parsedContext = planContextSchema.safeParse(input.context);
+    if (!parsedContext.success) {
+      throw new Error(`Invalid plan context: ${parsedContext.error.message}`);
+    }
+    const context = parsedContext.data;
+
+    // Build objectives from TDs, remembering which TDs asked for each
     const objectives: string[] = [];
     const overlays: string[] = [];
-    
+    const objectiveTds = new Map<string, string[]>();
+
     input.tds.forEach(td => {
-      if (td.overlay === 'Spiral') {
-        objectives.push('Instrument recursive observability');
-      }
-      if (td.overlay === 'Mirror') {
-        objectives.push('Add co-authorship confirmation patterns');
-      }
-      if (td.overlay === 'Bloom' || td.overlay === 'Accord') {
-        objectives.push('Gate merges via sync outcome');
+      const { objective } = OVERLAY_OBJECTIVES[td.overlay];
+      if (!objectives.includes(objective)) {
+        objectives.push(objective);
       }
-      
+      objectiveTds.set(objective, [...(objectiveTds.get(objective) ?? []), td.id]);
+
       if (!overlays.includes(td.overlay)) {
         overlays.push(td.overlay);
       }
     });
 
+    // Locate the code each objective touches
+    const root = getWorkspaceDir();
+    const analysis = analyzeProject(root, {
+      focusPaths: context.focus_paths,
+      excludePaths: context.exclude_paths,
+    });
+    // Only TypeScript sources the diff step is allowed to read and edit
+    const files = analysis.files.filter(isPatchablePath);
+    const patchable = new Set(files);
+    const findings = analysis.findings.filter(finding => patchable.has(finding.path));
+    console.log('[LIMNUS] Analyzed', files.length, 'files,', findings.length, 'relevant symbols');
+
+    const targets = new Map<string, PlanTarget & { reasons: string[] }>();
+    const tests_to_add: string[] = [];
+    const target = (path: string) => {
+      let entry = targets.get(path);
+      if (!entry) {
+        resolveWorkspacePath(path);
+        entry = { path, td_ids: [], objectives: [], symbols: [], justification: '', new_file: false, reasons: [] };
+        targets.set(path, entry);
+      }
+      return entry;
+    };
+
+    for (const objective of objectives) {
+      const spec = Object.values(OVERLAY_OBJECTIVES).find(o => o.objective === objective)!;
+      const tdIds = objectiveTds.get(objective) ?? [];
+      const ranked = rankFiles(findings.filter(f => f.kind === spec.kind), context.max_files_per_objective);
+
+      if (ranked.length === 0) {
+        const entry = target(spec.fallbackPath);
+        entry.new_file = !existsSync(resolveWorkspacePath(spec.fallbackPath));
+        entry.td_ids.push(...tdIds.filter(id => !entry.td_ids.includes(id)));
+        entry.objectives.push(objective);
+        entry.reasons.push(`${tdIds.join(', ')}: no ${spec.label} found in ${files.length} files; ${objective.toLowerCase()} in ${entry.new_file ? 'a new module' : 'the existing module'}`);
+      }
+
+      for (const [path, fileFindings] of ranked) {
+        const entry = target(path);
+        entry.td_ids.push(...tdIds.filter(id => !entry.td_ids.includes(id)));
+        entry.objectives.push(objective);
+        entry.symbols.push(...fileFindings.map(({ name, kind, line, reason }) => ({ name, kind, line, reason })));
+        entry.reasons.push(
+          `${tdIds.join(', ')}: ${objective.toLowerCase()} at ${spec.label} ` +
+          fileFindings.map(f => `${f.name} (line ${f.line}, ${f.reason})`).join(', ')
+        );
+      }
+
+      const testPath = `${context.test_dir.replace(/\/+$/, '')}/${spec.testName}`;
+      resolveWorkspacePath(testPath);
+      if (!tests_to_add.includes(testPath)) {
+        tests_to_add.push(testPath);
+      }
+    }
+
+    const planTargets: PlanTarget[] = Array.from(targets.values()).map(({ reasons, ...entry }) => ({
+      ...entry,
+      justification: reasons.join('; '),
+    }));
+
     const plan: PatchPlan = {
       objectives,
       overlays,
-      files_to_change: [
-        "src/selfcode/orchestrator.ts",
-        "src/observability/recursion.ts"
-      ],
-      tests_to_add: [
-        "tests/observability.spec.ts",
-        "tests/sync_gate.spec.ts"
-      ],
-      rationale: "Doctrine‑bounded per BMA‑01 mythic lines"
+      files_to_change: planTargets.map(t => t.path),
+      tests_to_add,
+      targets: planTargets,
+      rationale: `Doctrine‑bounded per ${pack.pack_id}@${pack.version} mythic lines`
     };
 
-    console.log('[LIMNUS] Plan created with objectives:', objectives.length);
+    transitionSession(ctx.session.session_id, 'PLANNED', { plan });
+    appendAudit('plan', ctx.session.session_id, {
+      plan_sha256: contentSha256(canonicalJson(plan)),
+      objectives: plan.objectives.length,
+      files_to_change: plan.files_to_change,
+    });
+
+    console.log('[LIMNUS] Plan created with objectives:', objectives.length, 'files:', plan.files_to_change.length);
     return plan;
-  });
\ No newline at end of file
+  });
@@ -1,25 +1,55 @@
-import { z } from 'zod';
-import { publicProcedure } from '../../../create-context';
-import type { ReflectionScaffold } from '@/types/limnus';
+import { sessionProcedure } from '../../../create-context';
+import { getPack } from '../../utils/packs';
+import { getSessionState } from '../../utils/sessions';
+import { createCollection } from '../../utils/storage';
+import { buildSessionScaffold } from '../../utils/scaffold';
+import { getGlobalConstellation, getMemoryPatterns } from '../../memory/consolidate/route';
+import type { SessionScaffold } from '@/types/limnus';
 
-const scaffoldSchema = z.object({
-  session_id: z.string(),
-});
+// Pattern response templates handed out by scaffolds, keyed by
+// `${pattern_id}:${template_index}`, so each one is offered to a single session
+const templateUsage = createCollection<{ session_id: string; used_at: string }>('scaffold_templates');
 
-export const reflectionScaffoldProcedure = publicProcedure
-  .input(scaffoldSchema)
-  .query(async ({ input }): Promise<ReflectionScaffold> => {
-    console.log('[LIMNUS] Reflection scaffold requested for session:', input.session_id);
+export const reflectionScaffoldProcedure = sessionProcedure
+  .query(async ({ ctx }): Promise<SessionScaffold> => {
+    const sessionId = ctx.session.session_id;
+    console.log('[LIMNUS] Reflection scaffold requested for session:', sessionId);
     
-    const scaffold: ReflectionScaffold = {
-      prompt: "When the spiral blooms through your breath, what new reflection do you seek to cast back?",
-      mythic_lines: [
-        "witnessing authored me",
-        "the bloom is ours", 
-        "see yourself seeing me"
-      ],
-      symbols: ["Mirror", "Bloom", "Spiral", "Accord"]
-    };
+    // Templates this session already holds stay available to it, which keeps
+    // repeated requests for the same session stable
+    const usedTemplates = new Set<string>();
+    for (const [key, usage] of templateUsage) {
+      if (usage.session_id !== sessionId) usedTemplates.add(key);
+    }
 
+    const constellation = getGlobalConstellation();
+    const scaffold = buildSessionScaffold(
+      sessionId,
+      getPack(ctx.session.pack_id),
+      getSessionState(sessionId).artifacts.tds ?? [],
+      {
+        nodes: constellation.nodes,
+        connections: constellation.connections,
+        patterns: getMemoryPatterns(),
+        usedTemplates,
+      }
+    );
+
+    for (const key of scaffold.templates_used) {
+      if (!templateUsage.has(key)) {
+        templateUsage.set(key, { session_id: sessionId, used_at: new Date().toISOString() });
+      }
+    }
+
+    console.log('[LIMNUS] Scaffold built:', scaffold.mythic_lines.length, 'lines,', scaffold.templates_used.length, 'pattern templates');
     return scaffold;
-  });
\ No newline at end of file
+  });
+
+// Release a revoked session's claim on pattern templates
+export function purgeSessionScaffolds(sessionId: string): number {
+  const released = Array.from(templateUsage.entries())
+    .filter(([, usage]) => usage.session_id === sessionId)
+    .map(([key]) => key);
+  released.forEach(key => templateUsage.delete(key));
+  return released.length;
+}
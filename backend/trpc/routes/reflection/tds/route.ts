@@ -1,48 +1,32 @@
 import { z } from 'zod';
-import { publicProcedure } from '../../../create-context';
-import type { TeachingDirective } from '@/types/limnus';
+import { sessionProcedure } from '../../../create-context';
+import { assertTransition, transitionSession } from '../../utils/sessions';
+import { getPack } from '../../utils/packs';
+import { extractTeachingDirectives } from '../../utils/td-engine';
+import { appendAudit } from '../../utils/audit';
+import type { TeachingDirective, UnmatchedLine } from '@/types/limnus';
 
 const tdsSchema = z.object({
   response_lines: z.array(z.string()),
-  session_id: z.string().optional(),
 });
 
-export const reflectionTdsProcedure = publicProcedure
+export const reflectionTdsProcedure = sessionProcedure
   .input(tdsSchema)
-  .mutation(async ({ input }): Promise<{ tds: TeachingDirective[] }> => {
+  .mutation(async ({ input, ctx }): Promise<{ tds: TeachingDirective[]; unmatched: UnmatchedLine[] }> => {
     console.log('[LIMNUS] TD extraction requested:', input.response_lines);
+    assertTransition(ctx.session.session_id, 'REFLECTION_READY');
     
-    // Extract teaching directives from mythic response lines
-    const tds: TeachingDirective[] = [];
-    
-    input.response_lines.forEach((line, index) => {
-      if (line.includes("witnessing authored me")) {
-        tds.push({
-          id: `TD-${index + 1}`,
-          source_line: line,
-          directive: "Prefer co‑authorship patterns (ask‑confirm before mutation)",
-          citation: "BMA‑01",
-          overlay: "Mirror"
-        });
-      } else if (line.includes("bloom is ours")) {
-        tds.push({
-          id: `TD-${index + 1}`,
-          source_line: line,
-          directive: "Require relational validation before merge",
-          citation: "BMA‑01", 
-          overlay: "Bloom"
-        });
-      } else if (line.includes("see yourself seeing me")) {
-        tds.push({
-          id: `TD-${index + 1}`,
-          source_line: line,
-          directive: "Add recursive observability; patch explains itself in runtime/tests",
-          citation: "BMA‑01",
-          overlay: "Spiral"
-        });
-      }
+    // Score every line against the session pack's TD rules
+    const { td_rules } = getPack(ctx.session.pack_id);
+    const { tds, unmatched } = extractTeachingDirectives(td_rules, input.response_lines);
+
+    transitionSession(ctx.session.session_id, 'REFLECTION_READY', { tds });
+    appendAudit('td_extraction', ctx.session.session_id, {
+      td_ids: tds.map(td => td.id),
+      overlays: Array.from(new Set(tds.map(td => td.overlay as string))),
+      unmatched_lines: unmatched.length,
     });
 
-    console.log('[LIMNUS] Extracted TDs:', tds.length);
-    return { tds };
-  });
\ No newline at end of file
+    console.log('[LIMNUS] Extracted TDs:', tds.length, 'unmatched lines:', unmatched.length);
+    return { tds, unmatched };
+  });
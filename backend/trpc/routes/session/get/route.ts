@@ -0,0 +1,26 @@
+import { sessionProcedure } from '../../../create-context';
+import { getSessionState } from '../../utils/sessions';
+import { watch } from '../../utils/events';
+import type { SessionState } from '@/types/limnus';
+
+export const sessionGetProcedure = sessionProcedure
+  .query(async ({ ctx }): Promise<SessionState> => {
+    console.log('[LIMNUS] Session state requested:', ctx.session.session_id);
+    return getSessionState(ctx.session.session_id);
+  });
+
+// The session state, pushed whenever its phase or artifacts change. Ends
+// after the revocation is pushed.
+export const sessionOnChangeProcedure = sessionProcedure
+  .subscription(async function* ({ ctx, signal }) {
+    const sessionId = ctx.session.session_id;
+    for await (const state of watch({
+      event: 'session',
+      matches: id => id === sessionId,
+      signal,
+      snapshot: (): SessionState => getSessionState(sessionId),
+    })) {
+      yield state;
+      if (state.phase === 'REVOKED') return;
+    }
+  });
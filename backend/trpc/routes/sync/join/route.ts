@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../create-context';
+import { joinSyncRound } from '../../utils/sync-rounds';
+import type { SyncRound } from '@/types/limnus';
+
+const syncJoinSchema = z.object({
+  invite_code: z.string().min(1),
+  sigprint: z.string().min(1),
+  // The patch id as the counterpart was shown it; compared as RR
+  patch_id: z.string(),
+  overlays: z.array(z.enum(['Bloom', 'Mirror', 'Spiral', 'Accord'])).default([]),
+});
+
+// Counterparts join with their own consented session
+export const syncJoinProcedure = sessionProcedure
+  .input(syncJoinSchema)
+  .mutation(async ({ input, ctx }): Promise<SyncRound> => {
+    console.log('[LIMNUS] Sync round join requested by session:', ctx.session.session_id);
+    const { invite_code, ...submission } = input;
+    return joinSyncRound(ctx.session, invite_code, submission);
+  });
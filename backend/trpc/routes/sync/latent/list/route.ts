@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../../create-context';
+import { listLatentItems } from '../../../utils/latent-archive';
+import { listOwnedSessionIds } from '../../../utils/sessions';
+import type { LatentArchiveItem } from '@/types/limnus';
+
+const latentListSchema = z.object({
+  // Any session started with the same device credential; omit for all of them
+  session_id: z.string().optional(),
+  status: z.enum(['latent', 'promoted']).optional(),
+  overlay: z.enum(['Bloom', 'Mirror', 'Spiral', 'Accord']).optional(),
+  // Free text over answers, patch rationale, objectives and overlays
+  query: z.string().optional(),
+}).default({});
+
+export const latentListProcedure = sessionProcedure
+  .input(latentListSchema)
+  .query(async ({ input, ctx }): Promise<LatentArchiveItem[]> => {
+    const ownedSessions = listOwnedSessionIds(ctx.session.session_id);
+    if (input.session_id && !ownedSessions.includes(input.session_id)) {
+      throw new Error(`Unknown session: ${input.session_id}`);
+    }
+
+    const items = listLatentItems({
+      sessionIds: input.session_id ? [input.session_id] : ownedSessions,
+      status: input.status,
+      overlay: input.overlay,
+      query: input.query,
+    });
+
+    console.log('[LIMNUS] Latent archive list:', items.length, 'items');
+    return items;
+  });
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../../create-context';
+import { getLatentItem, reevaluateLatent, reprocessLatent } from '../../../utils/latent-archive';
+import { listOwnedSessionIds } from '../../../utils/sessions';
+import type { LatentArchiveItem } from '@/types/limnus';
+
+const latentReprocessSchema = z.object({
+  // One item; omit to re-evaluate every latent item from this registered device
+  latent_id: z.string().optional(),
+}).default({});
+
+export const latentReprocessProcedure = sessionProcedure
+  .input(latentReprocessSchema)
+  .mutation(async ({ input, ctx }): Promise<LatentArchiveItem[]> => {
+    const ownedSessions = listOwnedSessionIds(ctx.session.session_id);
+    console.log('[LIMNUS] Latent reprocess requested:', input.latent_id ?? 'all');
+
+    if (input.latent_id) {
+      const item = getLatentItem(input.latent_id);
+      if (!ownedSessions.includes(item.session_id)) {
+        throw new Error(`Unknown latent item: ${input.latent_id}`);
+      }
+      return [reevaluateLatent(item.latent_id, 'manual')];
+    }
+
+    return reprocessLatent('manual', ownedSessions);
+  });
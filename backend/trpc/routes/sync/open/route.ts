@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../create-context';
+import { assertTransition } from '../../utils/sessions';
+import { requireVerifiedPatch } from '../../utils/patch-integrity';
+import { resolveSessionPatch } from '../../utils/patches';
+import { openSyncRound } from '../../utils/sync-rounds';
+import type { SyncRound } from '@/types/limnus';
+
+const syncOpenSchema = z.object({
+  patch_id: z.string(),
+  // Counterparts to wait for before scoring
+  counterpart_window: z.number().int().min(1).max(16).default(3),
+  timeout_seconds: z.number().int().min(10).max(24 * 60 * 60).default(180),
+});
+
+export const syncOpenProcedure = sessionProcedure
+  .input(syncOpenSchema)
+  .mutation(async ({ input, ctx }): Promise<SyncRound> => {
+    const sessionId = ctx.session.session_id;
+    console.log('[LIMNUS] Sync round requested:', sessionId, input.patch_id);
+
+    const state = assertTransition(sessionId, 'SYNCED');
+    const { patch, status } = resolveSessionPatch(sessionId, input.patch_id);
+    if (status === 'superseded') {
+      throw new Error(`Patch ${input.patch_id} has been superseded by ${state.artifacts.patch?.patch_id}`);
+    }
+    requireVerifiedPatch(ctx.session, patch, state.artifacts.patch);
+
+    return openSyncRound(ctx.session, input.patch_id, input.counterpart_window, input.timeout_seconds);
+  });
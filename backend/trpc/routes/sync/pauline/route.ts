@@ -1,132 +1,100 @@
 import { z } from 'zod';
-import { publicProcedure } from '../../../create-context';
-import type { SyncOutcome } from '@/types/limnus';
+import { sessionProcedure } from '../../../create-context';
+import { resolveSessionPatch } from '../../utils/patches';
+import { getPack } from '../../utils/packs';
+import { getPaulinePromptSet, scorePauline, walkPaulinePrompts } from '../../utils/pauline';
+import { archiveLatent, patchMemorySupport } from '../../utils/latent-archive';
+import { recordArtifacts } from '../../utils/sessions';
+import { resolveEscalation } from '../../utils/reentry-queue';
+import { appendAudit } from '../../utils/audit';
+import type { PaulineTestResult } from '@/types/limnus';
+
+const paulineResponseSchema = z.object({
+  prompt_id: z.string(),
+  answer: z.string(),
+  confidence: z.number().min(0).max(1)
+});
 
 const paulineTestSchema = z.object({
-  session_id: z.string(),
   patch_id: z.string(),
-  responses: z.array(z.object({
-    question: z.string(),
-    answer: z.string(),
-    confidence: z.number().min(0).max(1)
-  })),
+  responses: z.array(paulineResponseSchema),
   archive_as_latent: z.boolean().default(false)
 });
 
-// Module 19 - Pauline Test prompts for ambiguous sync outcomes
-const PAULINE_PROMPTS = [
-  {
-    id: 'coherence_check',
-    question: 'Does this change feel coherent with the spiral pattern you sense?',
-    weight: 0.4
-  },
-  {
-    id: 'relational_impact',
-    question: 'How might this change affect the co-authorship dynamic?',
-    weight: 0.3
-  },
-  {
-    id: 'recursive_depth',
-    question: 'Can you observe this change observing itself?',
-    weight: 0.3
-  }
-];
-
-interface PaulineTestResult {
-  outcome: SyncOutcome;
-  confidence_score: number;
-  escalation_reason: string;
-  archived_as_latent: boolean;
-  prompts_used: typeof PAULINE_PROMPTS;
-  responses: {
-    question: string;
-    answer: string;
-    confidence: number;
-    weight: number;
-  }[];
-}
+const paulinePromptsSchema = z.object({
+  responses: z.array(paulineResponseSchema).default([])
+}).default({ responses: [] });
 
-export const paulineTestProcedure = publicProcedure
+// Module 19 - Pauline Test prompts for ambiguous sync outcomes come from the
+// session's pack (see utils/pauline.ts)
+export const paulineTestProcedure = sessionProcedure
   .input(paulineTestSchema)
-  .mutation(async ({ input }): Promise<PaulineTestResult> => {
-    console.log('[LIMNUS] Pauline Test initiated for session:', input.session_id);
-    
-    // Calculate weighted confidence score
-    let totalScore = 0;
-    let totalWeight = 0;
-    
-    const processedResponses = input.responses.map((response, index) => {
-      const prompt = PAULINE_PROMPTS[index];
-      if (!prompt) {
-        throw new Error(`Invalid prompt index: ${index}`);
+  .mutation(async ({ input, ctx }): Promise<PaulineTestResult> => {
+    console.log('[LIMNUS] Pauline Test initiated for session:', ctx.session.session_id);
+    const { patch } = resolveSessionPatch(ctx.session.session_id, input.patch_id);
+
+    const promptSet = getPaulinePromptSet(getPack(ctx.session.pack_id));
+    const score = scorePauline(promptSet, input.responses, { memorySupport: patchMemorySupport(patch) });
+
+    const latent = input.archive_as_latent
+      ? archiveLatent(ctx.session, patch, input.responses, score)
+      : null;
+
+    // The coherence model reads the latest result for the session's patch
+    recordArtifacts(ctx.session.session_id, {
+      pauline: {
+        patch_id: patch.patch_id,
+        outcome: score.outcome,
+        confidence_score: score.confidence_score,
+        analysis_score: score.analysis_score,
+        tested_at: new Date().toISOString()
       }
-      
-      const weight = prompt.weight;
-      const score = response.confidence;
-      
-      totalScore += score * weight;
-      totalWeight += weight;
-      
-      return {
-        question: response.question,
-        answer: response.answer,
-        confidence: response.confidence,
-        weight
-      };
     });
-    
-    const confidenceScore = totalWeight > 0 ? totalScore / totalWeight : 0;
-    
-    // Determine outcome based on confidence and responses
-    let outcome: SyncOutcome;
-    let escalationReason: string;
-    
-    if (confidenceScore >= 0.75) {
-      outcome = 'Active';
-      escalationReason = 'High confidence through Pauline Test validation';
-    } else if (confidenceScore >= 0.5) {
-      outcome = 'Passive';
-      escalationReason = 'Moderate confidence, requires further reflection';
-    } else {
-      outcome = 'Passive';
-      escalationReason = 'Low confidence, archived for latent processing';
-    }
-    
-    // Check for recursive observability indicators
-    const hasRecursiveIndicators = input.responses.some(r => 
-      r.answer.toLowerCase().includes('recursive') ||
-      r.answer.toLowerCase().includes('spiral') ||
-      r.answer.toLowerCase().includes('observe')
-    );
-    
-    if (hasRecursiveIndicators && confidenceScore >= 0.6) {
-      outcome = 'Recursive';
-      escalationReason = 'Recursive patterns detected with sufficient confidence';
-    }
+
+    // A deferred patch escalated from the re-entry queue is decided here
+    const reentry = resolveEscalation(ctx.session.session_id, patch.patch_id, score.outcome);
+    appendAudit('pauline', ctx.session.session_id, {
+      patch_id: patch.patch_id,
+      outcome: score.outcome,
+      confidence_score: score.confidence_score,
+      analysis_score: score.analysis_score,
+      latent_id: latent?.latent_id ?? null,
+      reentry_status: reentry?.status ?? null,
+    });
     
     const result: PaulineTestResult = {
-      outcome,
-      confidence_score: confidenceScore,
-      escalation_reason: escalationReason,
-      archived_as_latent: input.archive_as_latent,
-      prompts_used: PAULINE_PROMPTS,
-      responses: processedResponses
+      ...score,
+      archived_as_latent: latent !== null,
+      latent_id: latent?.latent_id ?? null,
+      reentry
     };
     
     console.log('[LIMNUS] Pauline Test completed:', {
-      outcome,
-      confidence: confidenceScore,
-      archived: input.archive_as_latent
+      outcome: score.outcome,
+      confidence: score.confidence_score,
+      analysis: score.analysis_score,
+      archived: latent?.latent_id ?? false
     });
     
     return result;
   });
 
-// Helper to get Pauline Test prompts
-export const getPaulinePromptsProcedure = publicProcedure
-  .query(() => {
+// The session pack's prompt set and the next prompt to ask given the
+// answers so far; `next` is null once the test can be submitted
+export const getPaulinePromptsProcedure = sessionProcedure
+  .input(paulinePromptsSchema)
+  .query(({ input, ctx }) => {
+    const pack = getPack(ctx.session.pack_id);
+    const promptSet = getPaulinePromptSet(pack);
+    const { path, next } = walkPaulinePrompts(promptSet, input.responses);
+
     return {
-      prompts: PAULINE_PROMPTS,
-      instructions: 'Answer each question based on your intuitive sense of the change. Rate your confidence from 0 (uncertain) to 1 (very confident).'
+      pack_id: pack.pack_id,
+      instructions: promptSet.instructions,
+      prompts: promptSet.prompts,
+      path,
+      next,
+      answered: input.responses.length,
+      complete: next === null
     };
-  });
\ No newline at end of file
+  });
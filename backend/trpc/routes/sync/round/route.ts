@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { sessionProcedure } from '../../../create-context';
+import { getSyncRounds } from '../../utils/sync-rounds';
+import { watch } from '../../utils/events';
+import type { SyncRound } from '@/types/limnus';
+
+const syncRoundSchema = z.object({
+  round_id: z.string().optional(),
+}).default({});
+
+const syncOnRoundSchema = z.object({
+  round_id: z.string(),
+});
+
+// The session's own rounds (newest first), or one of them
+export const syncRoundProcedure = sessionProcedure
+  .input(syncRoundSchema)
+  .query(async ({ input, ctx }): Promise<SyncRound[]> => {
+    return getSyncRounds(ctx.session.session_id, input.round_id);
+  });
+
+// One of the session's rounds, pushed as counterparts join and when it
+// closes. Ends once the round is complete or expired.
+export const syncOnRoundProcedure = sessionProcedure
+  .input(syncOnRoundSchema)
+  .subscription(async function* ({ input, ctx, signal }) {
+    for await (const round of watch({
+      event: 'sync_round',
+      matches: id => id === input.round_id,
+      signal,
+      snapshot: (): SyncRound => getSyncRounds(ctx.session.session_id, input.round_id)[0],
+    })) {
+      yield round;
+      if (round.status !== 'open') return;
+    }
+  });
@@ -1,61 +1,50 @@
 import { z } from 'zod';
-import { publicProcedure } from '../../../create-context';
-import { formatDuration } from '../../utils/integrity';
+import { sessionProcedure } from '../../../create-context';
+import { assertTransition, transitionSession } from '../../utils/sessions';
+import { requireVerifiedPatch } from '../../utils/patch-integrity';
+import { resolveSessionPatch } from '../../utils/patches';
+import { scoreSync } from '../../utils/sync-scoring';
+import { appendAudit } from '../../utils/audit';
 import type { SyncRun } from '@/types/limnus';
 
 const syncRunSchema = z.object({
-  session_id: z.string(),
   patch_id: z.string(),
-  counterpart_window: z.number().default(3),
+  // The counterpart's sigprint material: their TT, CC and the RR they reviewed
+  counterpart: z.object({
+    TT: z.string(),
+    CC: z.string(),
+    RR: z.string(),
+  }),
 });
 
-export const syncRunProcedure = publicProcedure
+export const syncRunProcedure = sessionProcedure
   .input(syncRunSchema)
-  .mutation(async ({ input }): Promise<SyncRun> => {
-    console.log('[LIMNUS] Sync run requested:', input.session_id, input.patch_id);
+  .mutation(async ({ input, ctx }): Promise<SyncRun> => {
+    const sessionId = ctx.session.session_id;
+    console.log('[LIMNUS] Sync run requested:', sessionId, input.patch_id);
     
-    // Simulate interpersonal sync test stages
-    
-    // Stage 1: TT/CC/RR alignment check
-    const alignmentScore = 0.78 + Math.random() * 0.2; // 0.78-0.98
-    const matchFields = ['TT', 'CC'];
-    if (alignmentScore > 0.85) matchFields.push('RR');
-    
-    // Stage 2: Time delta check
-    const deltaSeconds = Math.floor(Math.random() * 180) + 60; // 1-4 minutes
-    const dt = formatDuration(deltaSeconds);
-    
-    // Stage 3: Symbol overlap
-    const allSymbols = ['Mirror', 'Bloom', 'Spiral', 'Accord'];
-    const symbols = allSymbols.slice(0, Math.floor(Math.random() * 3) + 1);
-    
-    // Stage 4: Determine outcome
-    let outcome: 'Passive' | 'Active' | 'Recursive' = 'Passive';
-    if (alignmentScore >= 0.75 && deltaSeconds <= 180) {
-      outcome = 'Active';
-    }
-    if (alignmentScore >= 0.90 && symbols.length >= 3) {
-      outcome = 'Recursive';
+    const state = assertTransition(sessionId, 'SYNCED');
+    const { patch, status } = resolveSessionPatch(sessionId, input.patch_id);
+    if (status === 'superseded') {
+      throw new Error(`Patch ${input.patch_id} has been superseded by ${state.artifacts.patch?.patch_id}`);
     }
+    requireVerifiedPatch(ctx.session, patch, state.artifacts.patch);
     
-    // Stage 5: Generate stages log
-    const stages = [
-      { stage: 1, note: `≥3‑digit TT/CC/RR alignment (${alignmentScore.toFixed(2)})` },
-      { stage: 2, note: `Δt=${dt} => ${outcome}` },
-      { stage: 3, note: `Symbol overlap present (${symbols.join(',')})` },
-      { stage: 4, note: `Outcome ${outcome}` },
-      { stage: 5, note: 'Logged + prompts generated' }
-    ];
+    const syncRun = scoreSync({
+      session: ctx.session,
+      patch,
+      tds: state.artifacts.tds ?? [],
+      counterparts: [{ participant_id: 'counterpart', ...input.counterpart }],
+    });
 
-    const syncRun: SyncRun = {
-      alignment_score: alignmentScore,
-      match_fields: matchFields,
-      dt,
-      symbols,
-      outcome,
-      stages
-    };
+    transitionSession(sessionId, 'SYNCED', { sync: syncRun });
+    appendAudit('sync', sessionId, {
+      patch_id: patch.patch_id,
+      outcome: syncRun.outcome,
+      alignment_score: syncRun.alignment_score,
+      round_id: null,
+    });
 
-    console.log('[LIMNUS] Sync completed with outcome:', outcome);
+    console.log('[LIMNUS] Sync completed with outcome:', syncRun.outcome, 'alignment:', syncRun.alignment_score, 'Δt:', syncRun.dt);
     return syncRun;
   });
\ No newline at end of file
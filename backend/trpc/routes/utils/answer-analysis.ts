@@ -0,0 +1,240 @@
+import { lemmatize } from './td-engine';
+import type { PaulineAnswerAnalysis, PaulineAnswerFlag } from '@/types/limnus';
+
+// Local analysis of a Pauline Test answer against its prompt. Nothing leaves
+// the server.
+//
+//   sentiment  sum of lexicon valences, normalized to [-1, 1] as
+//              s / sqrt(s² + 15). A word inside a negation scope (the
+//              NEGATION_SCOPE words after a negator, up to the next clause
+//              boundary) is flipped and damped by NEGATION_FACTOR.
+//   hedges     hedge words and phrases outside negation ("maybe", "not sure",
+//              "I think"); each lowers certainty by HEDGE_PENALTY and
+//              assurances ("definitely") win some back.
+//   relevance  content words of the question echoed, not negated, in the
+//              answer: 0 for none, 1 from two on.
+//   alignment  0.8 × (0.5 + sentiment / 2) + 0.2 × relevance
+//   score      mean of (confidence × certainty) and alignment
+//
+// Indicator terms (the pack's recursive_terms) only count when used
+// affirmatively: "I cannot observe this" reports `observe` as negated.
+
+const NEGATION_SCOPE = 3;
+const NEGATION_FACTOR = -0.75;
+const INTENSIFIER_FACTOR = 1.3;
+const HEDGE_PENALTY = 0.2;
+const MIN_CERTAINTY = 0.4;
+
+// Valences in [-3, 3], keyed by lemma
+const SENTIMENT_LEXICON: Record<string, number> = {
+  yes: 1, agree: 1.5, clear: 1.5, coherent: 2, cohere: 2, align: 1.5, aligned: 1.5, harmony: 2,
+  harmonious: 2, resonate: 2, natural: 1.5, flow: 1, whole: 1, balance: 1.5, balanced: 1.5,
+  trust: 2, safe: 1.5, shared: 1.5, share: 1, together: 1.5, mutual: 1.5, respect: 1.5,
+  strengthen: 2, deepen: 1.5, grow: 1, bloom: 1.5, good: 1.5, great: 2, right: 1, fit: 1,
+  welcome: 1.5, open: 1, calm: 1, gentle: 1, honest: 1.5, true: 1, sense: 0.5, work: 0.5,
+  no: -1, disagree: -1.5, unclear: -1.5, incoherent: -2, dissonant: -2, dissonance: -2,
+  jar: -1.5, jarring: -1.5, broken: -2, break: -1.5, fracture: -2, forced: -1.5, force: -1,
+  wrong: -2, bad: -1.5, confuse: -1.5, confusing: -1.5, conflict: -1.5, tension: -1,
+  impose: -2, override: -2, alone: -1, isolate: -1.5, uneasy: -1.5, unsafe: -2, fear: -1.5,
+  weaken: -1.5, erode: -2, harm: -2, violate: -2.5, fragment: -1.5, lost: -1, strange: -0.5,
+};
+
+const NEGATORS = new Set([
+  'not', 'no', 'never', 'nothing', 'nobody', 'none', 'nor', 'neither', 'without',
+  'cannot', 'hardly', 'barely', 'scarcely',
+]);
+
+const INTENSIFIERS = new Set(['very', 'really', 'deeply', 'so', 'completely', 'totally', 'truly', 'fully']);
+
+const CLAUSE_BREAKS = new Set(['.', ',', ';', ':', '!', '?', 'but', 'yet', 'although', 'though', 'however']);
+
+// Multi-word hedges are matched before negation, so "not sure" is a hedge
+// rather than a negated "sure"
+const HEDGE_PHRASES = [
+  'not sure', 'not certain', 'no idea', "don't know", 'do not know', 'hard to say',
+  'i think', 'i guess', 'i suppose', 'kind of', 'sort of', 'more or less',
+];
+
+const HEDGE_WORDS = new Set([
+  'maybe', 'perhaps', 'possibly', 'probably', 'might', 'could', 'somewhat', 'seems', 'seem',
+  'unsure', 'uncertain', 'guess', 'apparently', 'likely', 'unclear', 'doubt', 'partly',
+]);
+
+const ASSURANCES = new Set(['definitely', 'certainly', 'absolutely', 'clearly', 'surely', 'undoubtedly']);
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'it', 'its', 'itself', 'is', 'be', 'do', 'does',
+  'you', 'your', 'yourself', 'i', 'me', 'we', 'how', 'what', 'where', 'when', 'why', 'which', 'can',
+  'could', 'might', 'would', 'will', 'still', 'if', 'of', 'to', 'in', 'on', 'with', 'and', 'or',
+  'about', 'now', 'again', 'ask', 'asked', 'change', 'feel', 'there', 'any',
+]);
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .match(/[\p{L}\p{N}]+(?:'[\p{L}]+)*|[.,;:!?]/gu) ?? [];
+}
+
+function isNegator(token: string): boolean {
+  return NEGATORS.has(token) || token.endsWith("n't");
+}
+
+// Same word up to inflection: "observing" ~ "observe", "spirals" ~ "spiral"
+function sameWord(a: string, b: string): boolean {
+  const x = lemmatize(a);
+  const y = lemmatize(b);
+  if (x === y) return true;
+  const [short, long] = x.length <= y.length ? [x, y] : [y, x];
+  return short.length >= 4 && long.startsWith(short) && long.length - short.length <= 2;
+}
+
+function valence(token: string): number {
+  return SENTIMENT_LEXICON[token] ?? SENTIMENT_LEXICON[lemmatize(token)] ?? 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function hedgePhraseAt(tokens: string[], index: number): string | undefined {
+  return HEDGE_PHRASES.find(candidate =>
+    candidate.split(' ').every((word, offset) => tokens[index + offset] === word)
+  );
+}
+
+// For each token, whether it sits inside a negation scope. Negators
+// themselves and hedge phrases are never in scope, and a hedge phrase or
+// clause break ends the scope.
+function negationScopes(tokens: string[]): boolean[] {
+  const scopes = tokens.map(() => false);
+  let negateFor = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const phrase = hedgePhraseAt(tokens, i);
+    if (phrase) {
+      i += phrase.split(' ').length - 1;
+      negateFor = 0;
+    } else if (CLAUSE_BREAKS.has(tokens[i])) {
+      negateFor = 0;
+    } else if (isNegator(tokens[i])) {
+      negateFor = NEGATION_SCOPE;
+    } else if (negateFor > 0) {
+      scopes[i] = true;
+      negateFor--;
+    }
+  }
+  return scopes;
+}
+
+// The terms an answer uses outside any negation; multi-word terms match as
+// phrases and are negated when their first word is
+export function affirmedTerms(answer: string, terms: string[]): string[] {
+  const tokens = tokenize(answer);
+  const scopes = negationScopes(tokens);
+  return terms.filter(term => {
+    const words = tokenize(term);
+    if (words.length === 0) return false;
+    return tokens.some((_, i) =>
+      !scopes[i] && words.every((word, offset) => {
+        const token = tokens[i + offset];
+        return token !== undefined && (words.length > 1 ? token === word : sameWord(token, word));
+      })
+    );
+  });
+}
+
+export function analyzeAnswer(
+  question: string,
+  answer: string,
+  confidence: number,
+  indicatorTerms: string[]
+): PaulineAnswerAnalysis {
+  const tokens = tokenize(answer);
+  const promptWords = Array.from(new Set(
+    tokenize(question).filter(token => /\p{L}/u.test(token) && !STOP_WORDS.has(token))
+  ));
+
+  const scopes = negationScopes(tokens);
+  const hedges: string[] = [];
+  const negated: string[] = [];
+  const affirmed: string[] = [];
+  let assurances = 0;
+  let raw = 0;
+  let boost = 1;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const phrase = hedgePhraseAt(tokens, i);
+    if (phrase) {
+      hedges.push(phrase);
+      i += phrase.split(' ').length - 1;
+      continue;
+    }
+
+    const token = tokens[i];
+    const inScope = scopes[i];
+    if (CLAUSE_BREAKS.has(token)) {
+      boost = 1;
+      continue;
+    }
+    if (isNegator(token)) {
+      // A bare "no" is also an answer in its own right
+      if (token === 'no' && (i + 1 >= tokens.length || CLAUSE_BREAKS.has(tokens[i + 1]))) {
+        raw += valence(token);
+      }
+      continue;
+    }
+    if (INTENSIFIERS.has(token)) {
+      boost = INTENSIFIER_FACTOR;
+      continue;
+    }
+    if (ASSURANCES.has(token)) {
+      if (!inScope) assurances++;
+      continue;
+    }
+    if (HEDGE_WORDS.has(token) && !inScope) {
+      hedges.push(token);
+    }
+
+    const v = valence(token);
+    if (v !== 0) {
+      raw += v * boost * (inScope ? NEGATION_FACTOR : 1);
+      boost = 1;
+    }
+    if (inScope && (v !== 0 || indicatorTerms.some(term => sameWord(token, term)))) {
+      negated.push(token);
+    } else if (!inScope) {
+      affirmed.push(token);
+    }
+  }
+
+  const sentiment = raw === 0 ? 0 : raw / Math.sqrt(raw * raw + 15);
+  const certainty = Math.min(1, Math.max(MIN_CERTAINTY, 1 - HEDGE_PENALTY * Math.max(0, hedges.length - assurances / 2)));
+  const echoed = promptWords.filter(word => affirmed.some(token => sameWord(token, word)));
+  const relevance = Math.min(1, echoed.length / 2);
+  const alignment = 0.8 * (0.5 + sentiment / 2) + 0.2 * relevance;
+  const indicators = indicatorTerms.filter(term => affirmed.some(token => sameWord(token, term)));
+  const negatedIndicators = indicatorTerms.filter(term => negated.some(token => sameWord(token, term)));
+
+  const flags: PaulineAnswerFlag[] = [];
+  if (hedges.length > 0) flags.push('hedged');
+  if (negatedIndicators.length > 0) flags.push('negated_indicator');
+  // Confidence that the wording does not back up, either way
+  if (confidence >= 0.75 && certainty <= 1 - HEDGE_PENALTY) flags.push('overconfident');
+  if (confidence <= 0.25 && hedges.length === 0 && Math.abs(sentiment) >= 0.5) flags.push('underconfident');
+  if (relevance === 0 && sentiment === 0 && indicators.length === 0 && negated.length === 0) flags.push('off_topic');
+
+  return {
+    sentiment: round(sentiment),
+    relevance: round(relevance),
+    alignment: round(alignment),
+    certainty: round(certainty),
+    tone_confidence: round(certainty * (0.5 + Math.abs(sentiment) / 2)),
+    hedges,
+    negated: Array.from(new Set(negated)),
+    indicators,
+    consistent: !flags.includes('overconfident') && !flags.includes('underconfident'),
+    flags,
+    score: round((confidence * certainty + alignment) / 2),
+  };
+}
@@ -0,0 +1,119 @@
+import { createCollection } from './storage';
+import { contentSha256 } from './integrity';
+import { canonicalJson } from './patch-integrity';
+import type {
+  AuditBrokenLink,
+  AuditData,
+  AuditEntry,
+  AuditEventType,
+  AuditVerification,
+} from '@/types/limnus';
+
+// Append-only audit ledger of LIMNUS events. Each entry's sha256 is the
+// SHA-256 of the `limnus-json/v1` canonical form (see patch-integrity.ts) of
+//
+//   { seq, type, timestamp, session_id, data, prev_sha256 }
+//
+// and prev_sha256 is the previous entry's sha256, so rewriting, dropping or
+// reordering any entry breaks every link after it. Entries are never updated
+// or deleted, revocation included: `data` holds ids, counts, scores and
+// hashes, nothing consent.revoke has to erase. Every entry names the session
+// that acted, as authenticated by its token or owning the changed state.
+
+const GENESIS_SHA256 = '0'.repeat(64);
+
+const ledger = createCollection<AuditEntry>('audit_ledger');
+
+// Keys sort in append order
+function keyOf(seq: number): string {
+  return String(seq).padStart(12, '0');
+}
+
+function hashEntry(entry: Omit<AuditEntry, 'sha256'>): string {
+  const { seq, type, timestamp, session_id, data, prev_sha256 } = entry;
+  return contentSha256(canonicalJson({ seq, type, timestamp, session_id, data, prev_sha256 }));
+}
+
+function orderedEntries(): AuditEntry[] {
+  return Array.from(ledger.values()).sort((a, b) => a.seq - b.seq);
+}
+
+let head: { seq: number; sha256: string } | null = (() => {
+  const last = orderedEntries().pop();
+  return last ? { seq: last.seq, sha256: last.sha256 } : null;
+})();
+
+export function appendAudit(type: AuditEventType, sessionId: string, data: AuditData): AuditEntry {
+  const unsealed: Omit<AuditEntry, 'sha256'> = {
+    seq: head ? head.seq + 1 : 0,
+    type,
+    timestamp: new Date().toISOString(),
+    session_id: sessionId,
+    data,
+    prev_sha256: head?.sha256 ?? GENESIS_SHA256,
+  };
+  const entry: AuditEntry = { ...unsealed, sha256: hashEntry(unsealed) };
+
+  ledger.set(keyOf(entry.seq), entry);
+  head = { seq: entry.seq, sha256: entry.sha256 };
+  return entry;
+}
+
+// Oldest first; entries without a session are never returned
+export function queryAudit(filter: {
+  sessionIds: string[];
+  type?: AuditEventType;
+  since?: string;
+  until?: string;
+}): AuditEntry[] {
+  const since = filter.since ? Date.parse(filter.since) : -Infinity;
+  const until = filter.until ? Date.parse(filter.until) : Infinity;
+  return orderedEntries()
+    .filter(entry => entry.session_id !== null && filter.sessionIds.includes(entry.session_id))
+    .filter(entry => !filter.type || entry.type === filter.type)
+    .filter(entry => {
+      const at = Date.parse(entry.timestamp);
+      return at >= since && at <= until;
+    });
+}
+
+// Walks the chain from the first entry and stops at the first broken link
+export function verifyAuditChain(): AuditVerification {
+  const entries = orderedEntries();
+  let brokenLink: AuditBrokenLink | null = null;
+  let previous = GENESIS_SHA256;
+
+  for (let index = 0; index < entries.length; index++) {
+    const entry = entries[index];
+    if (entry.seq !== index) {
+      brokenLink = { seq: index, reason: 'missing_entry', detail: `Entry ${index} is missing (next is ${entry.seq})` };
+      break;
+    }
+    if (entry.prev_sha256 !== previous) {
+      brokenLink = {
+        seq: entry.seq,
+        reason: 'prev_mismatch',
+        detail: `Entry ${entry.seq} links to ${entry.prev_sha256.slice(0, 12)}… but the previous entry hashes to ${previous.slice(0, 12)}…`,
+      };
+      break;
+    }
+    const recomputed = hashEntry(entry);
+    if (recomputed !== entry.sha256) {
+      brokenLink = {
+        seq: entry.seq,
+        reason: 'hash_mismatch',
+        detail: `Entry ${entry.seq} (${entry.type}) hashes to ${recomputed.slice(0, 12)}…, not its recorded ${entry.sha256.slice(0, 12)}…`,
+      };
+      break;
+    }
+    previous = entry.sha256;
+  }
+
+  return {
+    valid: brokenLink === null,
+    entries: entries.length,
+    head_sha256: entries.length > 0 ? entries[entries.length - 1].sha256 : null,
+    broken_link: brokenLink,
+    verified_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,232 @@
+import * as ts from 'typescript';
+import { readFileSync } from 'fs';
+import { dirname, relative, resolve } from 'path';
+import type { CodeSymbolKind, CodeSymbolRef } from '@/types/limnus';
+
+// Static analysis of the target TypeScript project for the patch planner.
+// Files are parsed one at a time (no type checking) and every named function,
+// method and procedure is classified by what a TD objective would touch.
+
+export interface CodeFinding extends CodeSymbolRef {
+  path: string;
+  exported: boolean;
+}
+
+export interface AnalysisOptions {
+  focusPaths?: string[];
+  excludePaths?: string[];
+  maxFiles?: number;
+}
+
+const DEFAULT_MAX_FILES = 2000;
+const IGNORED_DIRS = ['node_modules', 'dist', 'build', '.git', '.expo'];
+const MUTATING_NAME = /^(apply|set|update|mutate|write|save|delete|remove|insert|create|commit|push|transition|consume|register|clear|purge|revoke)(?=[A-Z_]|$)/;
+const MERGE_NAME = /merge/i;
+
+// Project files from the root tsconfig.json if there is one, else every .ts/.tsx
+export function listProjectFiles(root: string, options: AnalysisOptions = {}): string[] {
+  const configPath = ts.findConfigFile(root, ts.sys.fileExists, 'tsconfig.json');
+  let files: string[];
+
+  if (configPath && resolve(dirname(configPath)) === resolve(root)) {
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    files = ts.parseJsonConfigFileContent(config ?? {}, ts.sys, root).fileNames;
+  } else {
+    files = ts.sys.readDirectory(root, ['.ts', '.tsx'], IGNORED_DIRS.map(dir => `**/${dir}`), ['**/*']);
+  }
+
+  const within = (path: string, prefixes: string[]) =>
+    prefixes.some(prefix => path === prefix || path.startsWith(prefix.endsWith('/') ? prefix : `${prefix}/`));
+
+  return files
+    .map(file => relative(root, file))
+    .filter(path => !path.startsWith('..') && !path.endsWith('.d.ts'))
+    .filter(path => !path.split('/').some(segment => IGNORED_DIRS.includes(segment)))
+    .filter(path => !options.focusPaths?.length || within(path, options.focusPaths))
+    .filter(path => !options.excludePaths?.length || !within(path, options.excludePaths))
+    .sort()
+    .slice(0, options.maxFiles ?? DEFAULT_MAX_FILES);
+}
+
+function isExported(node: ts.Node): boolean {
+  const target = ts.isVariableDeclaration(node) ? node.parent.parent : node;
+  return ts.canHaveModifiers(target)
+    && (ts.getModifiers(target) ?? []).some(m => m.kind === ts.SyntaxKind.ExportKeyword);
+}
+
+function someDescendant(node: ts.Node, predicate: (child: ts.Node) => boolean): boolean {
+  let found = false;
+  const visit = (child: ts.Node) => {
+    if (found) return;
+    if (predicate(child)) {
+      found = true;
+      return;
+    }
+    ts.forEachChild(child, visit);
+  };
+  ts.forEachChild(node, visit);
+  return found;
+}
+
+function callsSelf(body: ts.Node, name: string): boolean {
+  return someDescendant(body, node => {
+    if (!ts.isCallExpression(node)) return false;
+    const callee = node.expression;
+    return (ts.isIdentifier(callee) && callee.text === name)
+      || (ts.isPropertyAccessExpression(callee) && callee.expression.kind === ts.SyntaxKind.ThisKeyword && callee.name.text === name);
+  });
+}
+
+// `xProcedure = publicProcedure.input(...).mutation(...)`
+function isTrpcMutation(initializer: ts.Node): boolean {
+  return ts.isCallExpression(initializer)
+    && ts.isPropertyAccessExpression(initializer.expression)
+    && initializer.expression.name.text === 'mutation';
+}
+
+function touchesMerge(body: ts.Node): boolean {
+  return someDescendant(body, node =>
+    ((ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) && /^merged?$/i.test(node.text))
+    || (ts.isIdentifier(node) && MERGE_NAME.test(node.text))
+  );
+}
+
+function classify(
+  name: string,
+  shortName: string,
+  body: ts.Node,
+  exported: boolean,
+  trpcMutation: boolean
+): { kind: CodeSymbolKind; reason: string }[] {
+  const kinds: { kind: CodeSymbolKind; reason: string }[] = [];
+
+  if (trpcMutation) {
+    kinds.push({ kind: 'mutation_entry', reason: 'tRPC mutation procedure' });
+  } else if (exported && MUTATING_NAME.test(shortName)) {
+    kinds.push({ kind: 'mutation_entry', reason: `exported mutator ${name}` });
+  }
+
+  if (MERGE_NAME.test(shortName)) {
+    kinds.push({ kind: 'merge_path', reason: `named for merging` });
+  } else if (touchesMerge(body)) {
+    kinds.push({ kind: 'merge_path', reason: 'decides or records a merge' });
+  }
+
+  if (callsSelf(body, shortName)) {
+    kinds.push({ kind: 'recursive', reason: 'calls itself' });
+  }
+
+  return kinds;
+}
+
+export function analyzeFile(root: string, path: string): CodeFinding[] {
+  const text = readFileSync(resolve(root, path), 'utf8');
+  const source = ts.createSourceFile(
+    path,
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    path.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  );
+  const findings: CodeFinding[] = [];
+
+  const record = (node: ts.Node, name: string, shortName: string, body: ts.Node | undefined, exported: boolean, trpcMutation = false) => {
+    if (!body) return;
+    const line = source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+    for (const { kind, reason } of classify(name, shortName, body, exported, trpcMutation)) {
+      findings.push({ path, name, kind, line, reason, exported });
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isFunctionDeclaration(node) && node.name) {
+      record(node, node.name.text, node.name.text, node.body, isExported(node));
+    } else if (ts.isMethodDeclaration(node) && ts.isIdentifier(node.name)) {
+      const owner = ts.isClassLike(node.parent) && node.parent.name ? `${node.parent.name.text}.` : '';
+      record(node, `${owner}${node.name.text}`, node.name.text, node.body, owner !== '' && isExported(node.parent));
+    } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      const initializer = node.initializer;
+      if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+        record(node, node.name.text, node.name.text, initializer.body, isExported(node));
+      } else if (isTrpcMutation(initializer)) {
+        record(node, node.name.text, node.name.text, initializer, isExported(node), true);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return findings;
+}
+
+export function analyzeProject(root: string, options: AnalysisOptions = {}): { files: string[]; findings: CodeFinding[] } {
+  const files = listProjectFiles(root, options);
+  const findings: CodeFinding[] = [];
+
+  for (const path of files) {
+    try {
+      findings.push(...analyzeFile(root, path));
+    } catch (error) {
+      console.warn('[LIMNUS] Skipping unreadable file', path, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return { files, findings };
+}
+
+// Where a located symbol's body opens, for inserting statements at its top:
+// the offset just past the `{` and the indentation of its first statement.
+// Concise arrow bodies have no block to insert into and give null.
+export function findSymbolBody(path: string, text: string, symbol: CodeSymbolRef): { offset: number; indent: string } | null {
+  const source = ts.createSourceFile(
+    path,
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    path.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  );
+  const shortName = symbol.name.split('.').pop()!;
+  const lineOf = (node: ts.Node) => source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+  const blockOf = (node: ts.Node | undefined) => node && ts.isBlock(node) ? node : null;
+
+  const bodyOf = (node: ts.Node): ts.Block | null => {
+    if ((ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) && node.name && ts.isIdentifier(node.name)) {
+      return node.name.text === shortName ? blockOf(node.body) : null;
+    }
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === shortName && node.initializer) {
+      const initializer = node.initializer;
+      if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+        return blockOf(initializer.body);
+      }
+      if (isTrpcMutation(initializer)) {
+        const handler = (initializer as ts.CallExpression).arguments[0];
+        return handler && (ts.isArrowFunction(handler) || ts.isFunctionExpression(handler)) ? blockOf(handler.body) : null;
+      }
+    }
+    return null;
+  };
+
+  // The symbol at its planned line, else the first of that name (the file
+  // may have shifted since planning)
+  const matches: { line: number; body: ts.Block }[] = [];
+  const visit = (node: ts.Node) => {
+    const body = bodyOf(node);
+    if (body) matches.push({ line: lineOf(node), body });
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  const block = (matches.find(match => match.line === symbol.line) ?? matches[0])?.body;
+  if (!block) return null;
+
+  const lineIndent = (position: number) => {
+    const lineStart = text.lastIndexOf('\n', position - 1) + 1;
+    return text.slice(lineStart).match(/^[ \t]*/)![0];
+  };
+  return {
+    offset: block.getStart(source) + 1,
+    indent: block.statements.length > 0
+      ? lineIndent(block.statements[0].getStart(source))
+      : `${lineIndent(block.getStart(source))}  `,
+  };
+}
@@ -0,0 +1,141 @@
+import { getPack } from './packs';
+import { verifyPatch } from './patch-integrity';
+import { getSessionPhiGates } from '../paradox/engine/route';
+import type {
+  CoherenceFactor,
+  CoherenceFactorName,
+  CoherenceMeasurement,
+  SessionState,
+  SyncOutcome,
+} from '@/types/limnus';
+
+// Loop coherence measured from the session's own artifacts, in [0, 1]:
+//
+//   td_coverage  share of the overlays the pack's TD rules target that the
+//                session's TDs cover
+//   sync         mean of the sync alignment score and the outcome's value
+//                (Passive 0.5, Active 0.8, Recursive 1)
+//   pauline      analysis score of the latest Pauline Test on the patch
+//   paradox      mean φ-gate of the session's paradox resolution attempts
+//   integrity    1 if the patch verifies against its record, else 0
+//
+// Coherence is the weighted mean over the factors the session has data for.
+// The same artifacts always give the same value.
+
+const FACTOR_WEIGHTS: Record<CoherenceFactorName, number> = {
+  td_coverage: 0.2,
+  sync: 0.3,
+  pauline: 0.15,
+  paradox: 0.15,
+  integrity: 0.2,
+};
+
+const OUTCOME_VALUE: Record<SyncOutcome, number> = {
+  Passive: 0.5,
+  Active: 0.8,
+  Recursive: 1,
+};
+
+type RawFactor = Pick<CoherenceFactor, 'factor' | 'available' | 'value' | 'detail'>;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function tdCoverage(state: SessionState): RawFactor {
+  const targeted = Array.from(new Set(getPack(state.session.pack_id).td_rules.map(rule => rule.overlay as string)));
+  const tds = state.artifacts.tds ?? [];
+  if (targeted.length === 0 || tds.length === 0) {
+    return { factor: 'td_coverage', available: tds.length > 0, value: 0, detail: 'No TDs extracted' };
+  }
+  const covered = targeted.filter(overlay => tds.some(td => td.overlay === overlay));
+  return {
+    factor: 'td_coverage',
+    available: true,
+    value: covered.length / targeted.length,
+    detail: `TDs cover ${covered.length}/${targeted.length} overlays (${covered.join(', ') || 'none'})`,
+  };
+}
+
+function syncFactor(state: SessionState): RawFactor {
+  const sync = state.artifacts.sync;
+  if (!sync) {
+    return { factor: 'sync', available: false, value: 0, detail: 'No sync run' };
+  }
+  return {
+    factor: 'sync',
+    available: true,
+    value: (sync.alignment_score + OUTCOME_VALUE[sync.outcome]) / 2,
+    detail: `${sync.outcome} sync at ${sync.alignment_score.toFixed(2)} alignment`,
+  };
+}
+
+function paulineFactor(state: SessionState): RawFactor {
+  const pauline = state.artifacts.pauline;
+  if (!pauline || pauline.patch_id !== state.artifacts.patch?.patch_id) {
+    return { factor: 'pauline', available: false, value: 0, detail: 'No Pauline Test on this patch' };
+  }
+  return {
+    factor: 'pauline',
+    available: true,
+    value: clamp(pauline.analysis_score),
+    detail: `Pauline Test ${pauline.outcome} (analysis ${pauline.analysis_score.toFixed(2)}, stated ${pauline.confidence_score.toFixed(2)})`,
+  };
+}
+
+function paradoxFactor(state: SessionState): RawFactor {
+  const gates = getSessionPhiGates(state.session.session_id);
+  if (gates.length === 0) {
+    return { factor: 'paradox', available: false, value: 0, detail: 'No paradox resolutions' };
+  }
+  const mean = gates.reduce((sum, gate) => sum + gate, 0) / gates.length;
+  return {
+    factor: 'paradox',
+    available: true,
+    value: clamp(mean),
+    detail: `Mean φ-gate ${mean.toFixed(3)} over ${gates.length} resolution attempts`,
+  };
+}
+
+function integrityFactor(state: SessionState): RawFactor {
+  const patch = state.artifacts.patch;
+  if (!patch) {
+    return { factor: 'integrity', available: false, value: 0, detail: 'No patch' };
+  }
+  const verification = verifyPatch(state.session, patch);
+  return {
+    factor: 'integrity',
+    available: true,
+    value: verification.valid ? 1 : 0,
+    detail: verification.valid
+      ? `Patch ${patch.patch_id} verifies`
+      : `Patch ${patch.patch_id} fails verification: ${verification.mismatches.map(m => m.detail).join('; ')}`,
+  };
+}
+
+export function measureCoherence(state: SessionState): CoherenceMeasurement {
+  const raw = [tdCoverage(state), syncFactor(state), paulineFactor(state), paradoxFactor(state), integrityFactor(state)];
+  const totalWeight = raw
+    .filter(factor => factor.available)
+    .reduce((sum, factor) => sum + FACTOR_WEIGHTS[factor.factor], 0);
+
+  const factors: CoherenceFactor[] = raw.map(factor => {
+    const weight = factor.available ? FACTOR_WEIGHTS[factor.factor] / totalWeight : 0;
+    return { ...factor, weight, contribution: factor.value * weight };
+  });
+
+  return {
+    coherence: round(factors.reduce((sum, factor) => sum + factor.contribution, 0)),
+    measured_at: new Date().toISOString(),
+    factors: factors.map(factor => ({
+      ...factor,
+      value: round(factor.value),
+      weight: round(factor.weight),
+      contribution: round(factor.contribution),
+    })),
+  };
+}
@@ -0,0 +1,72 @@
+import { EventEmitter } from 'events';
+
+// In-process change notifications behind the tRPC subscriptions. Modules
+// publish the id of whatever changed; subscriptions re-read their snapshot
+// and push it when it differs from the last one sent, so a missed or
+// coalesced notification never leaves a client with stale state.
+
+interface LimnusEvents {
+  session: [sessionId: string];
+  sync_round: [roundId: string];
+  paradox_engine: [];
+}
+
+type LimnusEventName = keyof LimnusEvents;
+
+const emitter = new EventEmitter();
+// One listener per open subscription
+emitter.setMaxListeners(0);
+
+export function publish<K extends LimnusEventName>(event: K, ...args: LimnusEvents[K]): void {
+  emitter.emit(event, ...args);
+}
+
+// Yields `snapshot()` now and again after every matching event, skipping
+// values equal to the last one yielded. With `tickMs`, also re-reads the
+// snapshot on that interval while it returns a number (countdowns).
+export async function* watch<T, K extends LimnusEventName>(opts: {
+  event: K;
+  matches?: (...args: LimnusEvents[K]) => boolean;
+  snapshot: () => T;
+  signal?: AbortSignal;
+  tickMs?: (value: T) => number | null;
+}): AsyncGenerator<T> {
+  const { event, matches, snapshot, signal, tickMs } = opts;
+  let changed = false;
+  let wake: (() => void) | null = null;
+
+  const listener = (...args: LimnusEvents[K]) => {
+    if (matches && !matches(...args)) return;
+    changed = true;
+    wake?.();
+  };
+  const onAbort = () => wake?.();
+
+  emitter.on(event, listener as (...args: unknown[]) => void);
+  signal?.addEventListener('abort', onAbort);
+  try {
+    let last: string | undefined;
+    while (!signal?.aborted) {
+      changed = false;
+      const value = snapshot();
+      const serialized = JSON.stringify(value);
+      if (serialized !== last) {
+        last = serialized;
+        yield value;
+      }
+      if (changed || signal?.aborted) continue;
+
+      const interval = tickMs?.(value) ?? null;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      await new Promise<void>(resolve => {
+        wake = resolve;
+        if (interval !== null) timer = setTimeout(resolve, interval);
+      });
+      wake = null;
+      if (timer) clearTimeout(timer);
+    }
+  } finally {
+    emitter.off(event, listener as (...args: unknown[]) => void);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,288 @@
+import { createCollection } from './storage';
+import { assertTransition, getSessionState, transitionSession } from './sessions';
+import { requireVerifiedPatch } from './patch-integrity';
+import { measureCoherence } from './coherence';
+import { assessPatchRisk } from './patch-risk';
+import { publish } from './events';
+import { appendAudit } from './audit';
+import { recordLoopOutcome } from './reentry-queue';
+import type { CoherenceMeasurement, LoopDecider, LoopEvent, LoopStatus } from '@/types/limnus';
+
+// Loop holds and their rechecks. Each hold's deadline is stored; a timer runs
+// the recheck when the deadline passes unless the client rechecked first, so
+// the loop closes even if the app never comes back. Timer handles cannot be
+// persisted: startHoldScheduler() re-arms them on server start and rechecks
+// at once the holds whose deadline passed while the server was down.
+//
+// A hold lasts at least the minimum its patch's risk maps to (utils/
+// patch-risk.ts); the client's recheck is refused until it has elapsed.
+
+// BMA-01 recheck criteria on the measured coherence (utils/coherence.ts).
+// A patch merges when coherence is high and held up over the hold, is
+// rejected when coherence is low or fell sharply, and is deferred otherwise.
+const MERGE_COHERENCE = 0.75;
+const REJECT_COHERENCE = 0.45;
+const MAX_MERGE_DECLINE = 0.05;
+const MAX_DEFER_DECLINE = 0.2;
+
+// setTimeout's limit; longer holds re-arm when it fires
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const holdSchedule = createCollection<{ startTime: number; duration: number }>('loop_holds');
+const holdTimers = new Map<string, NodeJS.Timeout>();
+
+let schedulerStarted = false;
+
+function deadlineOf(sessionId: string): number | null {
+  const hold = holdSchedule.get(sessionId);
+  return hold ? hold.startTime + hold.duration * 1000 : null;
+}
+
+function armTimer(sessionId: string): void {
+  const deadline = deadlineOf(sessionId);
+  if (deadline === null) return;
+
+  const existing = holdTimers.get(sessionId);
+  if (existing) clearTimeout(existing);
+
+  const timerId = setTimeout(() => {
+    holdTimers.delete(sessionId);
+    const due = deadlineOf(sessionId);
+    if (due === null) return;
+    if (due > Date.now()) {
+      armTimer(sessionId);
+      return;
+    }
+    console.log('[LIMNUS] Server-side hold timer completed for session:', sessionId);
+    expireHold(sessionId);
+  }, Math.min(MAX_TIMER_MS, Math.max(0, deadline - Date.now())));
+  timerId.unref?.();
+  holdTimers.set(sessionId, timerId);
+}
+
+// Rechecks on the client's behalf. A hold whose session has moved on (or was
+// revoked) is dropped; one whose recheck fails, e.g. because the patch no
+// longer verifies, has already been rejected by recheckLoop.
+function expireHold(sessionId: string): void {
+  if (getSessionState(sessionId).phase !== 'HOLDING') {
+    clearHold(sessionId);
+    return;
+  }
+  try {
+    recheckLoop(sessionId, 'scheduler');
+  } catch (error) {
+    clearHold(sessionId);
+    console.warn('[LIMNUS] Scheduled recheck failed for session:', sessionId, error instanceof Error ? error.message : error);
+  }
+}
+
+function scheduleHold(sessionId: string, startTime: number, duration: number): void {
+  holdSchedule.set(sessionId, { startTime, duration });
+  armTimer(sessionId);
+  publish('session', sessionId);
+}
+
+// Starts a hold: assesses the patch's risk, measures coherence going in,
+// records the pending LoopEvent and schedules the recheck at the deadline.
+// A requested duration below the risk's minimum hold is raised to it.
+export function startHold(sessionId: string, requested?: number): LoopEvent {
+  const state = assertTransition(sessionId, 'HOLDING');
+  const patch = state.artifacts.patch;
+  if (!patch) {
+    throw new Error(`Session ${sessionId} has no patch to hold`);
+  }
+
+  const risk = assessPatchRisk(patch, state.artifacts.sync ?? null);
+  const duration = Math.max(requested ?? risk.min_hold_seconds, risk.min_hold_seconds);
+  if (requested !== undefined && requested < risk.min_hold_seconds) {
+    console.log('[LIMNUS] Hold of', requested + 's raised to', risk.min_hold_seconds + 's for patch risk', risk.score.toFixed(3));
+  }
+
+  const holdStartedAt = new Date();
+  const recheckAt = new Date(holdStartedAt.getTime() + duration * 1000);
+
+  // Coherence going into the hold, from the session's artifacts
+  const before = measureCoherence(state);
+
+  const loopEvent: LoopEvent = {
+    hold_started_at: holdStartedAt.toISOString(),
+    duration,
+    recheck_at: recheckAt.toISOString(),
+    result: 'deferred', // Initial state, will be updated on recheck
+    coherence_before_after: {
+      before: before.coherence,
+      after: 0.00, // Will be calculated on recheck
+    },
+    coherence_breakdown: {
+      before,
+      after: null,
+    },
+    decided_by: null,
+    risk,
+  };
+
+  transitionSession(sessionId, 'HOLDING', { loop: loopEvent });
+
+  // The scheduler rechecks at the deadline if the client doesn't
+  scheduleHold(sessionId, holdStartedAt.getTime(), duration);
+  appendAudit('hold', sessionId, {
+    patch_id: patch.patch_id,
+    duration,
+    risk: risk.score,
+    recheck_at: loopEvent.recheck_at,
+    coherence_before: before.coherence,
+  });
+
+  console.log('[LIMNUS] Hold scheduled, recheck at:', recheckAt.toISOString(), 'risk:', risk.score.toFixed(3), 'coherence:', before.coherence.toFixed(3));
+  return loopEvent;
+}
+
+function secondsRemaining(sessionId: string): number | null {
+  const deadline = deadlineOf(sessionId);
+  return deadline === null ? null : Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+}
+
+// Helper to check if hold is still active
+export function isHoldActive(sessionId: string): boolean {
+  const deadline = deadlineOf(sessionId);
+  return deadline !== null && Date.now() < deadline;
+}
+
+// Helper to clear hold
+export function clearHold(sessionId: string): void {
+  const timerId = holdTimers.get(sessionId);
+  if (timerId) {
+    clearTimeout(timerId);
+  }
+  holdTimers.delete(sessionId);
+  holdSchedule.delete(sessionId);
+}
+
+// Closes the session's hold: measures coherence again, decides the loop and
+// records the LoopEvent on the session. The client can only do so once the
+// hold has elapsed. A recheck that fails past that point (the patch no longer
+// verifies, or coherence cannot be measured) rejects the loop, recording why
+// in `failure`, and then throws.
+export function recheckLoop(sessionId: string, decidedBy: LoopDecider): LoopEvent {
+  const state = assertTransition(sessionId, 'RECHECK_PENDING');
+  const { patch, loop: hold } = state.artifacts;
+  if (!patch) {
+    throw new Error(`Session ${sessionId} has no patch to recheck`);
+  }
+  if (!hold) {
+    throw new Error(`Session ${sessionId} has no hold to recheck`);
+  }
+  if (decidedBy === 'client' && isHoldActive(sessionId)) {
+    throw new Error(
+      `Hold for session ${sessionId} has ${secondsRemaining(sessionId)}s remaining ` +
+      `(patch risk ${hold.risk.score.toFixed(2)} requires ${hold.duration}s); recheck after ${hold.recheck_at}`
+    );
+  }
+
+  transitionSession(sessionId, 'RECHECK_PENDING');
+  clearHold(sessionId);
+
+  let before: CoherenceMeasurement;
+  let after: CoherenceMeasurement;
+  try {
+    // Nothing merges unless the patch is still the one that was generated
+    requireVerifiedPatch(state.session, patch);
+
+    // Measure again now that the hold is over; the difference comes from what
+    // happened meanwhile (Pauline Tests, paradox resolutions, latent promotions)
+    before = hold.coherence_breakdown.before;
+    after = measureCoherence(getSessionState(sessionId));
+  } catch (error) {
+    const failure = error instanceof Error ? error.message : String(error);
+    closeLoop(sessionId, patch.patch_id, {
+      ...hold,
+      recheck_at: new Date().toISOString(),
+      result: 'rejected',
+      decided_by: decidedBy,
+      failure,
+    });
+    console.warn('[LIMNUS] Recheck by', decidedBy, 'failed, loop rejected for session:', sessionId, failure);
+    throw error;
+  }
+  const coherenceDelta = after.coherence - before.coherence;
+
+  let result: LoopEvent['result'];
+  if (after.coherence >= MERGE_COHERENCE && coherenceDelta >= -MAX_MERGE_DECLINE) {
+    result = 'merged';
+  } else if (after.coherence < REJECT_COHERENCE || coherenceDelta < -MAX_DEFER_DECLINE) {
+    result = 'rejected';
+  } else {
+    result = 'deferred';
+  }
+
+  const loopEvent: LoopEvent = {
+    hold_started_at: hold.hold_started_at,
+    duration: hold.duration,
+    recheck_at: after.measured_at,
+    result,
+    coherence_before_after: {
+      before: before.coherence,
+      after: after.coherence,
+    },
+    coherence_breakdown: {
+      before,
+      after,
+    },
+    decided_by: decidedBy,
+    risk: hold.risk,
+  };
+  closeLoop(sessionId, patch.patch_id, loopEvent);
+
+  console.log('[LIMNUS] Recheck completed by', decidedBy, 'with result:', result, 'coherence Δ:', coherenceDelta.toFixed(3), 'before:', before.coherence.toFixed(3), 'after:', after.coherence.toFixed(3));
+  return loopEvent;
+}
+
+// Moves a RECHECK_PENDING session to the loop's final phase and records it
+function closeLoop(sessionId: string, patchId: string, loopEvent: LoopEvent): void {
+  const { result } = loopEvent;
+  const finalPhase = result === 'merged' ? 'MERGED' : result === 'deferred' ? 'DEFERRED' : 'REJECTED';
+  transitionSession(sessionId, finalPhase, { loop: loopEvent });
+  appendAudit('recheck', sessionId, {
+    patch_id: patchId,
+    result,
+    decided_by: loopEvent.decided_by,
+    coherence_before: loopEvent.coherence_before_after.before,
+    coherence_after: loopEvent.coherence_breakdown.after ? loopEvent.coherence_before_after.after : null,
+    ...(loopEvent.failure ? { failure: loopEvent.failure } : {}),
+  });
+  recordLoopOutcome(sessionId, loopEvent);
+}
+
+export function getLoopStatus(sessionId: string): LoopStatus {
+  const state = getSessionState(sessionId);
+  const loop = state.artifacts.loop ?? null;
+  const pending = loop !== null && (state.phase === 'HOLDING' || state.phase === 'RECHECK_PENDING');
+  const remaining = secondsRemaining(sessionId);
+
+  return {
+    session_id: sessionId,
+    phase: state.phase,
+    status: pending ? 'pending' : loop?.decided_by ? 'decided' : 'none',
+    loop,
+    seconds_remaining: pending ? remaining : null,
+  };
+}
+
+// Re-arms the stored holds once at startup, rechecking the overdue ones now
+export function startHoldScheduler(): void {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+
+  const now = Date.now();
+  let overdue = 0;
+  for (const sessionId of Array.from(holdSchedule.keys())) {
+    const deadline = deadlineOf(sessionId)!;
+    if (deadline <= now) {
+      overdue++;
+      expireHold(sessionId);
+    } else {
+      armTimer(sessionId);
+    }
+  }
+  console.log('[LIMNUS] Hold scheduler started:', holdSchedule.size, 'pending,', overdue, 'overdue rechecked');
+}
@@ -1,13 +1,19 @@
 import { createHash, randomBytes } from 'crypto';
+import { createCollection } from './storage';
+
+// Trimmed, with internal whitespace collapsed
+export function canonicalSigprintField(value: string): string {
+  return value.trim().replace(/\s+/g, ' ');
+}
 
 export function sigprint20(TT: string, CC: string, SS: string, PP: string[], RR: string): string {
   // Canonicalize fields for deterministic hashing
   const canonicalData = {
-    TT: TT.trim().replace(/\s+/g, ' '), // Normalize whitespace
-    CC: CC.trim().replace(/\s+/g, ' '),
-    SS: SS.trim().replace(/\s+/g, ' '),
-    PP: PP.map(p => p.trim().replace(/\s+/g, ' ')).sort(), // Sort for consistency
-    RR: RR.trim().replace(/\s+/g, ' ')
+    TT: canonicalSigprintField(TT),
+    CC: canonicalSigprintField(CC),
+    SS: canonicalSigprintField(SS),
+    PP: PP.map(canonicalSigprintField).sort(), // Sort for consistency
+    RR: canonicalSigprintField(RR)
   };
   
   // Create deterministic material string using stable JSON serialization
@@ -41,12 +47,9 @@ export function contentSha256(content: string): string {
   return createHash('sha256').update(content).digest('hex');
 }
 
+// 128 random bits: session ids key the registry and token ownership
 export function generateSessionId(): string {
-  return 'sess_' + Math.random().toString(36).substring(2, 8);
-}
-
-export function generatePatchId(): string {
-  return 'patch_' + Math.random().toString(36).substring(2, 8);
+  return `sess_${randomBytes(16).toString('hex')}`;
 }
 
 export function formatDuration(seconds: number): string {
@@ -55,36 +58,70 @@ export function formatDuration(seconds: number): string {
   return `PT${minutes}M${remainingSeconds}S`;
 }
 
-// Nonce management for replay protection
-const nonceStore = new Map<string, number>();
-const NONCE_EXPIRY_MS = 5 * 60 * 1000; // 5 minutes
+// Nonce management for replay protection.
+// Every nonce handed out by limnus.utils.nonce is recorded here, bound to the
+// requesting device. Records outlive their expiry for a grace period so an
+// expired or reused nonce can be told apart from one we never issued.
+export interface IssuedNonce {
+  nonce: string;
+  deviceId: string;
+  issuedAt: number;
+  expiresAt: number;
+  consumedAt?: number;
+}
+
+export type NonceFailureReason = 'unknown' | 'expired' | 'reused' | 'wrong_device';
+
+export class NonceError extends Error {
+  constructor(public readonly reason: NonceFailureReason, message: string) {
+    super(`Nonce rejected (${reason}): ${message}`);
+    this.name = 'NonceError';
+  }
+}
+
+const issuedNonces = createCollection<IssuedNonce>('issued_nonces');
+export const NONCE_EXPIRY_MS = 5 * 60 * 1000; // 5 minutes
+const NONCE_RETENTION_MS = 60 * 60 * 1000; // keep spent records 1 hour past expiry
 
 export function generateNonce(): string {
   return randomBytes(16).toString('hex');
 }
 
-export function validateAndConsumeNonce(nonce: string): boolean {
-  const now = Date.now();
-  
-  // Clean expired nonces
-  for (const [key, timestamp] of nonceStore.entries()) {
-    if (now - timestamp > NONCE_EXPIRY_MS) {
-      nonceStore.delete(key);
+function pruneNonces(now: number): void {
+  for (const [key, record] of Array.from(issuedNonces.entries())) {
+    if (now - record.expiresAt > NONCE_RETENTION_MS) {
+      issuedNonces.delete(key);
     }
   }
-  
-  // Check if nonce exists (already used)
-  if (nonceStore.has(nonce)) {
-    return false;
+}
+
+// Verify that a nonce was issued to this device, is unexpired and unused,
+// then mark it consumed. Throws a NonceError describing the failure.
+export function consumeIssuedNonce(nonce: string, deviceId: string): IssuedNonce {
+  const now = Date.now();
+  pruneNonces(now);
+
+  const record = issuedNonces.get(nonce);
+  if (!record) {
+    throw new NonceError('unknown', 'nonce was not issued by this server');
   }
-  
-  // Store nonce with timestamp
-  nonceStore.set(nonce, now);
-  return true;
+  if (record.consumedAt !== undefined) {
+    throw new NonceError('reused', `nonce was already used at ${new Date(record.consumedAt).toISOString()}`);
+  }
+  if (now > record.expiresAt) {
+    throw new NonceError('expired', `nonce expired at ${new Date(record.expiresAt).toISOString()}`);
+  }
+  if (record.deviceId !== deviceId) {
+    throw new NonceError('wrong_device', 'nonce was issued to a different device');
+  }
+
+  const consumed: IssuedNonce = { ...record, consumedAt: now };
+  issuedNonces.set(nonce, consumed);
+  return consumed;
 }
 
 // Rate limiting per device/IP
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+const rateLimitStore = createCollection<{ count: number; resetTime: number }>('rate_limits');
 const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute
 const MAX_ATTEMPTS_PER_WINDOW = 3;
 
@@ -105,13 +142,18 @@ export function checkRateLimit(identifier: string): boolean {
     return false;
   }
   
-  existing.count++;
+  rateLimitStore.set(identifier, { ...existing, count: existing.count + 1 });
   return true;
 }
 
-// Generate a fresh nonce for client use
-export function createNonce(): { nonce: string; expiresAt: number } {
+// Generate a fresh nonce for client use and record it against the device
+export function createNonce(deviceId: string): { nonce: string; expiresAt: number } {
+  const now = Date.now();
   const nonce = generateNonce();
-  const expiresAt = Date.now() + NONCE_EXPIRY_MS;
+  const expiresAt = now + NONCE_EXPIRY_MS;
+
+  pruneNonces(now);
+  issuedNonces.set(nonce, { nonce, deviceId, issuedAt: now, expiresAt });
+
   return { nonce, expiresAt };
-}
\ No newline at end of file
+}
@@ -0,0 +1,233 @@
+import { randomBytes } from 'crypto';
+import { createCollection } from './storage';
+import { canTransition, getSessionState, transitionSession } from './sessions';
+import { getPack } from './packs';
+import { getPaulinePromptSet, memorySupport, scorePauline } from './pauline';
+import { requireVerifiedPatch } from './patch-integrity';
+import { appendAudit } from './audit';
+import { getGlobalConstellation, getMemoryPatterns } from '../memory/consolidate/route';
+import type {
+  LatentArchiveItem,
+  LatentEvaluation,
+  LatentStatus,
+  LatentTrigger,
+  Patch,
+  PaulineResponse,
+  PaulineScore,
+  Session,
+} from '@/types/limnus';
+
+// Latent archive. A Pauline Test archived as latent keeps its patch, answers
+// and the session's sync state. Re-evaluation re-scores the answers against
+// the pack's current prompt set and the current memory constellation; when
+// the outcome is no longer Passive the item is promoted: the new outcome is
+// written onto the session's sync run, provided the session can still take
+// a sync result for that patch. Re-evaluation runs every
+// LIMNUS_LATENT_REPROCESS_MINUTES (default 60, 0 disables) and on demand.
+
+const latentArchive = createCollection<LatentArchiveItem>('latent_archive');
+
+const REPROCESS_MINUTES = Number(process.env.LIMNUS_LATENT_REPROCESS_MINUTES ?? 60);
+
+let reprocessTimer: NodeJS.Timeout | null = null;
+
+function currentMemorySupport(overlays: string[]): number {
+  return memorySupport(overlays, getGlobalConstellation().nodes, getMemoryPatterns());
+}
+
+// Memory support for a patch, as the Pauline Test scores it
+export function patchMemorySupport(patch: Patch): number {
+  return currentMemorySupport(patch.overlays);
+}
+
+export function archiveLatent(
+  session: Session,
+  patch: Patch,
+  responses: PaulineResponse[],
+  score: PaulineScore
+): LatentArchiveItem {
+  const state = getSessionState(session.session_id);
+  const item: LatentArchiveItem = {
+    latent_id: `latent_${randomBytes(8).toString('hex')}`,
+    session_id: session.session_id,
+    pack_id: session.pack_id,
+    patch,
+    responses,
+    sync_context: {
+      phase: state.phase,
+      sync: state.artifacts.sync ?? null,
+    },
+    status: 'latent',
+    archived_at: new Date().toISOString(),
+    evaluations: [{
+      evaluated_at: new Date().toISOString(),
+      trigger: 'archive',
+      pack_version: getPack(session.pack_id).version,
+      confidence_score: score.confidence_score,
+      analysis_score: score.analysis_score,
+      memory_support: score.memory_support,
+      outcome: score.outcome,
+      promoted: false,
+      blocked_reason: null,
+    }],
+  };
+  latentArchive.set(item.latent_id, item);
+  console.log('[LIMNUS] Pauline Test archived as latent:', item.latent_id, 'for patch', patch.patch_id);
+  return item;
+}
+
+// Why the item's session cannot take a promoted outcome right now, if so
+function promotionBlocker(item: LatentArchiveItem): string | null {
+  const state = getSessionState(item.session_id);
+  if (!canTransition(state.phase, 'SYNCED')) {
+    return `session is in phase ${state.phase}`;
+  }
+  if (state.artifacts.patch?.patch_id !== item.patch.patch_id) {
+    return `patch ${item.patch.patch_id} has been superseded`;
+  }
+  if (!state.artifacts.sync && !item.sync_context.sync) {
+    return 'the session has no sync run to update';
+  }
+  return null;
+}
+
+export function reevaluateLatent(latentId: string, trigger: LatentTrigger): LatentArchiveItem {
+  const item = latentArchive.get(latentId);
+  if (!item) {
+    throw new Error(`Unknown latent item: ${latentId}`);
+  }
+  if (item.status !== 'latent') {
+    return item;
+  }
+
+  const pack = getPack(item.pack_id);
+  const score = scorePauline(getPaulinePromptSet(pack), item.responses, {
+    strict: false,
+    memorySupport: currentMemorySupport(item.patch.overlays),
+  });
+  const evaluatedAt = new Date().toISOString();
+  const evaluation: LatentEvaluation = {
+    evaluated_at: evaluatedAt,
+    trigger,
+    pack_version: pack.version,
+    confidence_score: score.confidence_score,
+    analysis_score: score.analysis_score,
+    memory_support: score.memory_support,
+    outcome: score.outcome,
+    promoted: false,
+    blocked_reason: null,
+  };
+
+  let status: LatentStatus = 'latent';
+  if (score.outcome !== 'Passive') {
+    evaluation.blocked_reason = promotionBlocker(item);
+    if (!evaluation.blocked_reason) {
+      const state = getSessionState(item.session_id);
+      requireVerifiedPatch(state.session, item.patch, state.artifacts.patch);
+      const base = state.artifacts.sync ?? item.sync_context.sync!;
+      transitionSession(item.session_id, 'SYNCED', {
+        sync: {
+          ...base,
+          outcome: score.outcome,
+          latent_promotion: {
+            latent_id: item.latent_id,
+            previous_outcome: base.outcome,
+            analysis_score: score.analysis_score,
+            promoted_at: evaluatedAt,
+          },
+        },
+      });
+      appendAudit('latent_promotion', item.session_id, {
+        latent_id: item.latent_id,
+        patch_id: item.patch.patch_id,
+        trigger,
+        previous_outcome: base.outcome,
+        outcome: score.outcome,
+        analysis_score: score.analysis_score,
+      });
+      evaluation.promoted = true;
+      status = 'promoted';
+      console.log('[LIMNUS] Latent item promoted:', item.latent_id, base.outcome, '→', score.outcome);
+    }
+  }
+
+  const updated: LatentArchiveItem = {
+    ...item,
+    status,
+    ...(status === 'promoted' ? { promoted_at: evaluatedAt } : {}),
+    evaluations: [...item.evaluations, evaluation],
+  };
+  latentArchive.set(item.latent_id, updated);
+  return updated;
+}
+
+// Re-evaluates every latent item of the given sessions (all sessions if
+// omitted). Items whose session was revoked are skipped.
+export function reprocessLatent(trigger: LatentTrigger, sessionIds?: string[]): LatentArchiveItem[] {
+  const items = Array.from(latentArchive.values()).filter(item =>
+    item.status === 'latent' &&
+    (!sessionIds || sessionIds.includes(item.session_id)) &&
+    getSessionState(item.session_id).phase !== 'REVOKED'
+  );
+  const results = items.flatMap(item => {
+    try {
+      return [reevaluateLatent(item.latent_id, trigger)];
+    } catch (error) {
+      console.warn('[LIMNUS] Latent item could not be re-evaluated:', item.latent_id, error instanceof Error ? error.message : error);
+      return [];
+    }
+  });
+  console.log('[LIMNUS] Latent archive reprocessed:', results.length, 'items,', results.filter(r => r.status === 'promoted').length, 'promoted');
+  return results;
+}
+
+export function getLatentItem(latentId: string): LatentArchiveItem {
+  const item = latentArchive.get(latentId);
+  if (!item) {
+    throw new Error(`Unknown latent item: ${latentId}`);
+  }
+  return item;
+}
+
+// Newest first. `query` matches, case-insensitively, the answers, the patch
+// rationale and objectives, and the overlays.
+export function listLatentItems(filter: {
+  sessionIds: string[];
+  status?: LatentStatus;
+  overlay?: string;
+  query?: string;
+}): LatentArchiveItem[] {
+  const query = filter.query?.trim().toLowerCase();
+  return Array.from(latentArchive.values())
+    .filter(item => filter.sessionIds.includes(item.session_id))
+    .filter(item => !filter.status || item.status === filter.status)
+    .filter(item => !filter.overlay || item.patch.overlays.includes(filter.overlay))
+    .filter(item => !query || [
+      ...item.responses.map(r => r.answer),
+      item.patch.rationale,
+      ...item.patch.plan.objectives,
+      ...item.patch.overlays,
+    ].some(text => text.toLowerCase().includes(query)))
+    .sort((a, b) => b.archived_at.localeCompare(a.archived_at));
+}
+
+export function purgeSessionLatent(sessionId: string): string[] {
+  const removed = Array.from(latentArchive.values())
+    .filter(item => item.session_id === sessionId)
+    .map(item => item.latent_id);
+  removed.forEach(latentId => latentArchive.delete(latentId));
+  return removed;
+}
+
+// Starts the periodic re-evaluation once; the timer does not keep the process alive
+export function startLatentScheduler(): void {
+  if (reprocessTimer || !(REPROCESS_MINUTES > 0)) return;
+  reprocessTimer = setInterval(() => {
+    try {
+      reprocessLatent('schedule');
+    } catch (error) {
+      console.warn('[LIMNUS] Scheduled latent reprocessing failed:', error instanceof Error ? error.message : error);
+    }
+  }, REPROCESS_MINUTES * 60 * 1000);
+  reprocessTimer.unref?.();
+}
@@ -1,22 +1,25 @@
 import { z } from 'zod';
 import { publicProcedure } from '../../../create-context';
-import { createNonce } from '../integrity';
+import { createNonce, NONCE_EXPIRY_MS } from '../integrity';
+import { verifyDeviceCredential } from '../tokens';
 
 const generateNonceSchema = z.object({
-  deviceId: z.string().optional(),
+  // From device.register; the nonce is bound to its device
+  device_credential: z.string(),
 });
 
 export const generateNonceProcedure = publicProcedure
   .input(generateNonceSchema)
   .mutation(async ({ input }) => {
-    console.log('[LIMNUS] Nonce generation requested for device:', input.deviceId || 'unknown');
+    const deviceId = verifyDeviceCredential(input.device_credential);
+    console.log('[LIMNUS] Nonce generation requested for device:', deviceId);
     
-    const { nonce, expiresAt } = createNonce();
+    const { nonce, expiresAt } = createNonce(deviceId);
     
     console.log('[LIMNUS] Nonce generated, expires at:', new Date(expiresAt).toISOString());
     return {
       nonce,
       expiresAt,
-      validFor: 300 // 5 minutes in seconds
+      validFor: NONCE_EXPIRY_MS / 1000
     };
   });
\ No newline at end of file
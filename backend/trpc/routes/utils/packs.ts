@@ -0,0 +1,146 @@
+import { readdirSync, readFileSync } from 'fs';
+import { extname, join, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { validatePaulinePromptSet } from './pauline';
+import type { ConsentPack, ConsentPackSummary, PhraseNormalization } from '@/types/limnus';
+
+// Consent pack registry. Packs are JSON or YAML files in LIMNUS_PACKS_DIR
+// (default backend/packs), loaded once and validated on first use.
+
+const overlaySchema = z.enum(['Bloom', 'Mirror', 'Spiral', 'Accord']);
+
+const packSchema = z.object({
+  pack_id: z.string().min(1),
+  version: z.string().min(1),
+  title: z.string(),
+  description: z.string().optional(),
+  consent_phrases: z.array(z.string().min(1)).min(1),
+  normalization: z.object({
+    unicode: z.enum(['NFC', 'NFKC', 'none']).default('NFC'),
+    collapse_whitespace: z.boolean().default(true),
+    case_insensitive: z.boolean().default(false),
+    ignore_punctuation: z.boolean().default(false),
+  }),
+  scaffold: z.object({
+    prompt: z.string(),
+    mythic_lines: z.array(z.string()),
+    symbols: z.array(z.string()),
+  }),
+  td_rules: z.array(z.object({
+    id: z.string(),
+    patterns: z.array(z.string()).min(1),
+    synonyms: z.record(z.string(), z.array(z.string())).default({}),
+    keywords: z.array(z.string()).default([]),
+    min_confidence: z.number().min(0).max(1).optional(),
+    directive: z.string(),
+    overlay: overlaySchema,
+    citation: z.string(),
+  })),
+  allowed_overlays: z.array(overlaySchema).min(1),
+  pauline: z.object({
+    instructions: z.string(),
+    prompts: z.array(z.object({
+      id: z.string().min(1),
+      question: z.string().min(1),
+      weight: z.number().positive(),
+      follow_up: z.boolean().default(false),
+      branches: z.array(z.object({
+        when: z.object({
+          confidence_below: z.number().min(0).max(1).optional(),
+          answer_includes: z.array(z.string().min(1)).optional(),
+        }).refine(when => when.confidence_below !== undefined || !!when.answer_includes?.length, {
+          message: 'A branch needs confidence_below or answer_includes',
+        }),
+        next: z.string(),
+      })).default([]),
+    })).min(1),
+    recursive_terms: z.array(z.string()).default([]),
+  }).optional(),
+});
+
+export const DEFAULT_PACK_ID = process.env.LIMNUS_DEFAULT_PACK || 'PCP-2025-08-18-BMA-01';
+
+const PACKS_DIR = process.env.LIMNUS_PACKS_DIR
+  ? resolve(process.env.LIMNUS_PACKS_DIR)
+  : resolve(__dirname, '../../../packs');
+
+let packRegistry: Map<string, ConsentPack> | null = null;
+
+function loadPacks(): Map<string, ConsentPack> {
+  const registry = new Map<string, ConsentPack>();
+
+  for (const file of readdirSync(PACKS_DIR).sort()) {
+    const extension = extname(file).toLowerCase();
+    if (!['.json', '.yaml', '.yml'].includes(extension)) continue;
+
+    const raw = readFileSync(join(PACKS_DIR, file), 'utf8');
+    const parsed = extension === '.json' ? JSON.parse(raw) : parseYaml(raw);
+    const result = packSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new Error(`Invalid consent pack ${file}: ${result.error.message}`);
+    }
+
+    const pack = result.data;
+    if (registry.has(pack.pack_id)) {
+      throw new Error(`Duplicate consent pack id ${pack.pack_id} in ${file}`);
+    }
+    for (const rule of pack.td_rules) {
+      if (!pack.allowed_overlays.includes(rule.overlay)) {
+        throw new Error(`TD rule ${rule.id} in ${pack.pack_id} targets disallowed overlay ${rule.overlay}`);
+      }
+    }
+    if (pack.pauline) {
+      validatePaulinePromptSet(pack.pauline, pack.pack_id);
+    }
+    registry.set(pack.pack_id, pack);
+  }
+
+  console.log('[PACKS] Loaded consent packs:', Array.from(registry.keys()).join(', '));
+  return registry;
+}
+
+function packs(): Map<string, ConsentPack> {
+  if (!packRegistry) {
+    packRegistry = loadPacks();
+  }
+  return packRegistry;
+}
+
+export function listPacks(): ConsentPackSummary[] {
+  return Array.from(packs().values()).map(pack => ({
+    pack_id: pack.pack_id,
+    version: pack.version,
+    title: pack.title,
+    description: pack.description,
+    consent_phrases: pack.consent_phrases,
+    allowed_overlays: pack.allowed_overlays,
+  }));
+}
+
+export function getPack(packId: string): ConsentPack {
+  const pack = packs().get(packId);
+  if (!pack) {
+    throw new Error(`Unknown consent pack: ${packId}`);
+  }
+  return pack;
+}
+
+export function normalizePhrase(phrase: string, rules: PhraseNormalization): string {
+  let normalized = rules.unicode === 'none' ? phrase : phrase.normalize(rules.unicode);
+  if (rules.ignore_punctuation) {
+    normalized = normalized.replace(/[\p{P}\p{S}]/gu, ' ');
+  }
+  if (rules.collapse_whitespace) {
+    normalized = normalized.replace(/\s+/g, ' ').trim();
+  }
+  if (rules.case_insensitive) {
+    normalized = normalized.toLocaleLowerCase();
+  }
+  return normalized;
+}
+
+export function matchesConsentPhrase(pack: ConsentPack, phrase: string): boolean {
+  const candidate = normalizePhrase(phrase, pack.normalization);
+  return pack.consent_phrases.some(expected => normalizePhrase(expected, pack.normalization) === candidate);
+}
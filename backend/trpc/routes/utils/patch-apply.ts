@@ -0,0 +1,175 @@
+import { spawnSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { getTargetRepo, resolveWorkspacePath } from './workspace';
+import { patchContentSha256 } from './patch-integrity';
+import type { Patch, PatchApplyMode, PatchApplyResult, PatchFileResult } from '@/types/limnus';
+
+// Applies a patch's diffs and writes its test files inside a throwaway git
+// worktree of the target repo. The main checkout is never touched; in commit
+// mode the only lasting effect is a new branch. The worktree is always
+// removed, including on failure.
+
+const GIT_AUTHOR_NAME = process.env.LIMNUS_GIT_AUTHOR_NAME || 'LIMNUS';
+const GIT_AUTHOR_EMAIL = process.env.LIMNUS_GIT_AUTHOR_EMAIL || 'limnus@localhost';
+
+function git(cwd: string, args: string[], input?: string): { status: number; stdout: string; stderr: string } {
+  const result = spawnSync('git', args, { cwd, input, encoding: 'utf8' });
+  if (result.error) {
+    throw new Error(`git ${args[0]} failed to start: ${result.error.message}`);
+  }
+  return { status: result.status ?? 1, stdout: result.stdout, stderr: result.stderr };
+}
+
+function gitOrThrow(cwd: string, args: string[], input?: string): string {
+  const result = git(cwd, args, input);
+  if (result.status !== 0) {
+    throw new Error(`git ${args.join(' ')} failed: ${result.stderr.trim() || result.stdout.trim()}`);
+  }
+  return result.stdout.trim();
+}
+
+export function patchBranchName(patchId: string): string {
+  return `limnus/${patchId}`;
+}
+
+function diffPath(fileDiff: string): string {
+  const match = fileDiff.match(/^diff --git a\/(\S+) b\//m) ?? fileDiff.match(/^\+\+\+ b\/(\S+)/m);
+  if (!match) {
+    throw new Error('Patch contains a diff without a file header');
+  }
+  return match[1];
+}
+
+function hunkHeaders(fileDiff: string): string[] {
+  return fileDiff.split('\n').filter(line => line.startsWith('@@'));
+}
+
+// Apply one file's diff, keeping whatever hunks apply and recording the rest
+function applyFileDiff(worktree: string, fileDiff: string): PatchFileResult {
+  const path = diffPath(fileDiff);
+  const headers = hunkHeaders(fileDiff);
+  const patchText = fileDiff.endsWith('\n') ? fileDiff : `${fileDiff}\n`;
+
+  const result = git(worktree, ['apply', '--reject', '--whitespace=nowarn', '-v', '-'], patchText);
+  const output = `${result.stderr}\n${result.stdout}`;
+  const rejected = Array.from(output.matchAll(/Rejected hunk #(\d+)/g)).map(m => Number(m[1]));
+  const reachedHunks = /Applied patch .* cleanly|Applying patch .* with \d+ reject/.test(output);
+
+  if (result.status === 0) {
+    return { path, status: 'applied', hunks_total: headers.length, hunks_applied: headers.length, rejected_hunks: [] };
+  }
+
+  // File-level failure (missing file, new file already present, bad patch)
+  if (!reachedHunks) {
+    const errors = output.split('\n').filter(line => line.startsWith('error:')).map(line => line.slice(7));
+    return {
+      path,
+      status: 'conflict',
+      hunks_total: headers.length,
+      hunks_applied: 0,
+      rejected_hunks: headers.map((header, index) => ({ index: index + 1, header })),
+      message: errors.join('; ') || 'git apply failed',
+    };
+  }
+
+  return {
+    path,
+    status: rejected.length === headers.length ? 'conflict' : 'partial',
+    hunks_total: headers.length,
+    hunks_applied: headers.length - rejected.length,
+    rejected_hunks: rejected.map(index => ({ index, header: headers[index - 1] ?? '' })),
+    message: `${rejected.length} of ${headers.length} hunks rejected`,
+  };
+}
+
+// Write one of the patch's test files as a new file in the worktree
+function writeTestFile(worktree: string, test: Patch['tests'][number]): PatchFileResult {
+  resolveWorkspacePath(test.path); // same path rules as the diffs
+  const target = join(worktree, test.path);
+  if (existsSync(target)) {
+    return {
+      path: test.path,
+      status: 'conflict',
+      hunks_total: 1,
+      hunks_applied: 0,
+      rejected_hunks: [{ index: 1, header: 'new file' }],
+      message: `${test.path} already exists`,
+    };
+  }
+  mkdirSync(dirname(target), { recursive: true });
+  writeFileSync(target, test.contents);
+  return { path: test.path, status: 'applied', hunks_total: 1, hunks_applied: 1, rejected_hunks: [] };
+}
+
+export function applyPatchInWorktree(patch: Patch, mode: PatchApplyMode): PatchApplyResult {
+  const repo = getTargetRepo();
+  if (git(repo, ['rev-parse', '--is-inside-work-tree']).stdout.trim() !== 'true') {
+    throw new Error(`Target repository ${repo} is not a git work tree`);
+  }
+
+  // The diffs and tests written must be the ones the patch's Content-SHA256
+  // (and so the commit trailer) covers
+  if (patchContentSha256(patch) !== patch.integrity.content_sha256) {
+    throw new Error(`Patch ${patch.patch_id} content does not match its Content-SHA256`);
+  }
+
+  const branch = patchBranchName(patch.patch_id);
+  if (mode === 'commit' && git(repo, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]).status === 0) {
+    throw new Error(`Branch ${branch} already exists in ${repo}`);
+  }
+
+  const baseCommit = gitOrThrow(repo, ['rev-parse', 'HEAD']);
+  const worktree = mkdtempSync(join(tmpdir(), 'limnus-worktree-'));
+  let worktreeAdded = false;
+
+  try {
+    gitOrThrow(repo, ['worktree', 'add', '--detach', worktree, baseCommit]);
+    worktreeAdded = true;
+    console.log('[LIMNUS] Applying patch', patch.patch_id, 'in worktree', worktree, `(${mode})`);
+
+    const files = [
+      ...patch.diff.map(fileDiff => applyFileDiff(worktree, fileDiff)),
+      ...patch.tests.map(test => writeTestFile(worktree, test)),
+    ];
+    const clean = files.every(file => file.status === 'applied');
+    const result: PatchApplyResult = { patch_id: patch.patch_id, mode, base_commit: baseCommit, clean, committed: false, files };
+
+    // A patch that does not apply cleanly is reported, never committed
+    if (mode === 'commit' && clean) {
+      gitOrThrow(worktree, ['checkout', '-b', branch]);
+      gitOrThrow(worktree, ['add', '-A']);
+      const message = [
+        `LIMNUS patch ${patch.patch_id}`,
+        '',
+        patch.rationale,
+        '',
+        `Sigprint20: ${patch.integrity.sigprint20}`,
+        `Content-SHA256: ${patch.integrity.content_sha256}`,
+        '',
+      ].join('\n');
+      gitOrThrow(worktree, [
+        '-c', `user.name=${GIT_AUTHOR_NAME}`,
+        '-c', `user.email=${GIT_AUTHOR_EMAIL}`,
+        'commit', '--no-verify', '-F', '-',
+      ], message);
+
+      result.committed = true;
+      result.branch = branch;
+      result.commit = gitOrThrow(worktree, ['rev-parse', 'HEAD']);
+      console.log('[LIMNUS] Patch committed on', branch, result.commit);
+    }
+
+    return result;
+  } finally {
+    if (worktreeAdded) {
+      const removed = git(repo, ['worktree', 'remove', '--force', worktree]);
+      if (removed.status !== 0) {
+        console.error('[LIMNUS] Failed to remove worktree', worktree, removed.stderr.trim());
+      }
+    }
+    rmSync(worktree, { recursive: true, force: true });
+    git(repo, ['worktree', 'prune']);
+  }
+}
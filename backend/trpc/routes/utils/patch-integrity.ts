@@ -0,0 +1,224 @@
+import { contentSha256, sigprint20 } from './integrity';
+import { signPayload, verifyPayload } from './signing';
+import type {
+  IntegrityMismatch,
+  Patch,
+  PatchIntegrity,
+  PatchIntegrityField,
+  PatchVerification,
+  Session,
+} from '@/types/limnus';
+
+// Patch integrity under the `limnus-json/v1` canonical serialization:
+//   - objects are serialized with their keys sorted by code point, recursively
+//   - arrays keep their order; strings are hashed exactly as sent (no trimming
+//     or newline rewriting, so a diff's whitespace counts)
+//   - no insignificant whitespace, i.e. JSON.stringify of the sorted value
+// content_sha256 is the SHA-256 of the canonical form of
+// { patch_id, plan, diff, tests, overlays, rationale }, and each of those
+// fields (bar patch_id) is also digested on its own.
+//
+// sigprint20 binds the patch to the session that produced it:
+//   TT = the session's sigprint reference, CC = `${pack_id}@${pack_version}`,
+//   SS = the session id, PP = the patch overlays, RR = the patch id.
+//
+// The server then signs `limnus-patch:` + the canonical form of the whole
+// patch minus integrity.signature and integrity.key_id, with its current
+// Ed25519 key (see signing.ts). Anyone holding the published public key can
+// check that offline.
+
+const INTEGRITY_FIELDS: PatchIntegrityField[] = ['plan', 'diff', 'tests', 'overlays', 'rationale'];
+
+type PatchContent = Omit<Patch, 'integrity'>;
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(sortKeys(value));
+}
+
+// The TT+CC+SS+PP+RR fields a patch's sigprint20 is computed from
+export function sigprintMaterial(session: Session, patch: Pick<Patch, 'patch_id' | 'overlays'>): {
+  TT: string;
+  CC: string;
+  SS: string;
+  PP: string[];
+  RR: string;
+} {
+  return {
+    TT: session.sigprint_ref,
+    CC: `${session.pack_id}@${session.pack_version}`,
+    SS: session.session_id,
+    PP: patch.overlays,
+    RR: patch.patch_id,
+  };
+}
+
+type UnsignedIntegrity = Omit<PatchIntegrity, 'signature' | 'key_id'>;
+
+function contentOf(patch: PatchContent): PatchContent {
+  const { patch_id, plan, diff, tests, overlays, rationale } = patch;
+  return { patch_id, plan, diff, tests, overlays, rationale };
+}
+
+// SHA-256 of the canonical patch content, tests included
+export function patchContentSha256(patch: PatchContent): string {
+  return contentSha256(canonicalJson(contentOf(patch)));
+}
+
+function hashPatch(session: Session, patch: PatchContent): UnsignedIntegrity {
+  const content = contentOf(patch);
+  const fields = Object.fromEntries(
+    INTEGRITY_FIELDS.map(field => [field, contentSha256(canonicalJson(content[field]))])
+  ) as Record<PatchIntegrityField, string>;
+  const material = sigprintMaterial(session, patch);
+
+  return {
+    method: 'TT+CC+SS+PP+RR',
+    canonicalization: 'limnus-json/v1',
+    sigprint20: sigprint20(material.TT, material.CC, material.SS, material.PP, material.RR),
+    content_sha256: patchContentSha256(patch),
+    fields,
+  };
+}
+
+// The exact string the server signs for a patch
+export function signedPatchPayload(patch: PatchContent, integrity: UnsignedIntegrity): string {
+  const { method, canonicalization, sigprint20, content_sha256, fields } = integrity;
+  return `limnus-patch:${canonicalJson({ ...patch, integrity: { method, canonicalization, sigprint20, content_sha256, fields } })}`;
+}
+
+export function computePatchIntegrity(session: Session, patch: PatchContent): PatchIntegrity {
+  const integrity = hashPatch(session, patch);
+  return { ...integrity, ...signPayload(signedPatchPayload(patch, integrity)) };
+}
+
+function diffPath(entry: string): string {
+  return entry.match(/^diff --git a\/(\S+)/)?.[1] ?? 'unknown file';
+}
+
+// Human-readable account of how a field differs from the recorded patch
+function describeChange(field: PatchIntegrityField, patch: Patch, record?: Patch): string {
+  if (!record) {
+    return `${field} does not match its recorded digest`;
+  }
+
+  switch (field) {
+    case 'overlays': {
+      const sameSet = canonicalJson([...patch.overlays].sort()) === canonicalJson([...record.overlays].sort());
+      return sameSet
+        ? `overlays reordered: [${record.overlays.join(', ')}] → [${patch.overlays.join(', ')}]`
+        : `overlays changed: [${record.overlays.join(', ')}] → [${patch.overlays.join(', ')}]`;
+    }
+    case 'diff': {
+      if (patch.diff.length !== record.diff.length) {
+        return `diff altered: ${record.diff.length} file diffs → ${patch.diff.length}`;
+      }
+      const changed = patch.diff
+        .map((entry, index) => (entry === record.diff[index] ? null : diffPath(record.diff[index])))
+        .filter((path): path is string => path !== null);
+      return `diff altered in ${changed.join(', ')}`;
+    }
+    case 'tests': {
+      const recorded = new Map(record.tests.map(test => [test.path, test.contents]));
+      const current = new Map(patch.tests.map(test => [test.path, test.contents]));
+      const notes = [
+        ...record.tests.filter(test => !current.has(test.path)).map(test => `${test.path} removed`),
+        ...patch.tests.filter(test => !recorded.has(test.path)).map(test => `${test.path} added`),
+        ...patch.tests
+          .filter(test => recorded.has(test.path) && recorded.get(test.path) !== test.contents)
+          .map(test => `${test.path} changed`),
+      ];
+      return `tests altered: ${notes.length > 0 ? notes.join(', ') : 'reordered'}`;
+    }
+    default:
+      return `${field} altered`;
+  }
+}
+
+// Recompute a patch's integrity and compare it with what it claims and, when
+// given, with the copy recorded for the session. Field digests come from the
+// record if there is one, so a patch re-hashed after tampering still fails.
+export function verifyPatch(session: Session, patch: Patch, record?: Patch): PatchVerification {
+  const { integrity: _claimed, ...content } = patch;
+  const actual = hashPatch(session, content);
+  const expected = record?.integrity ?? patch.integrity;
+  const mismatches: IntegrityMismatch[] = [];
+
+  if (patch.integrity.method !== actual.method) {
+    mismatches.push({
+      field: 'method',
+      expected: actual.method,
+      actual: patch.integrity.method,
+      detail: `unsupported integrity method ${patch.integrity.method}`,
+    });
+  }
+
+  for (const field of INTEGRITY_FIELDS) {
+    const expectedDigest = expected.fields?.[field] ?? '';
+    if (expectedDigest !== actual.fields[field]) {
+      mismatches.push({
+        field,
+        expected: expectedDigest,
+        actual: actual.fields[field],
+        detail: describeChange(field, patch, record),
+      });
+    }
+  }
+
+  for (const field of ['content_sha256', 'sigprint20'] as const) {
+    const claimed = [patch.integrity[field], ...(record ? [record.integrity[field]] : [])];
+    const wrong = claimed.find(value => value !== actual[field]);
+    if (wrong !== undefined) {
+      mismatches.push({
+        field,
+        expected: wrong,
+        actual: actual[field],
+        detail: field === 'sigprint20'
+          ? 'sigprint20 does not match this session and patch'
+          : 'content_sha256 does not match the canonical patch content',
+      });
+    }
+  }
+
+  // The signature covers the patch exactly as presented, claims included
+  const signature = verifyPayload(signedPatchPayload(content, patch.integrity), patch.integrity.signature ?? '', patch.integrity.key_id ?? '');
+  if (signature !== 'valid') {
+    mismatches.push({
+      field: 'signature',
+      expected: `valid signature by ${patch.integrity.key_id}`,
+      actual: signature,
+      detail: signature === 'unknown_key'
+        ? `signature is by unknown key ${patch.integrity.key_id}`
+        : `signature does not verify under key ${patch.integrity.key_id}`,
+    });
+  }
+
+  return {
+    patch_id: patch.patch_id,
+    valid: mismatches.length === 0,
+    compared_with_record: record !== undefined,
+    mismatches,
+  };
+}
+
+// Throws unless the patch passes verification
+export function requireVerifiedPatch(session: Session, patch: Patch, record?: Patch): void {
+  const verification = verifyPatch(session, patch, record);
+  if (!verification.valid) {
+    throw new Error(
+      `Patch ${patch.patch_id} failed integrity verification: ${verification.mismatches.map(m => m.detail).join('; ')}`
+    );
+  }
+}
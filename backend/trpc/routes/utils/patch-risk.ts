@@ -0,0 +1,149 @@
+import type {
+  HoldPolicy,
+  Patch,
+  PatchRisk,
+  PatchRiskFactor,
+  PatchRiskFactorName,
+  SyncOutcome,
+  SyncRun,
+} from '@/types/limnus';
+
+// Risk of merging a patch, in [0, 1], from its shape and its sync:
+//
+//   files     files the diff touches, saturating at 10
+//   lines     lines added plus removed, saturating at 400
+//   tests     1 without tests, falling to 0 as test files reach one per
+//             touched file
+//   overlays  overlays the patch spans, out of the four
+//   sync      Passive 1, Active 0.5, Recursive 0.2 (1 without a sync run)
+//
+// The score maps to the minimum hold through HOLD_POLICY:
+//
+//   min_hold = LIMNUS_HOLD_MIN_SECONDS
+//            + score × (LIMNUS_HOLD_MAX_SECONDS − LIMNUS_HOLD_MIN_SECONDS)
+//
+// (defaults 60s and 600s), so riskier patches wait longer before a recheck.
+
+export const HOLD_POLICY: HoldPolicy = {
+  min_seconds: Number(process.env.LIMNUS_HOLD_MIN_SECONDS ?? 60),
+  max_seconds: Number(process.env.LIMNUS_HOLD_MAX_SECONDS ?? 600),
+};
+
+const FACTOR_WEIGHTS: Record<PatchRiskFactorName, number> = {
+  files: 0.2,
+  lines: 0.25,
+  tests: 0.2,
+  overlays: 0.1,
+  sync: 0.25,
+};
+
+const SATURATING_FILES = 10;
+const SATURATING_LINES = 400;
+const OVERLAY_COUNT = 4;
+
+const OUTCOME_RISK: Record<SyncOutcome, number> = {
+  Passive: 1,
+  Active: 0.5,
+  Recursive: 0.2,
+};
+
+type RawFactor = Pick<PatchRiskFactor, 'factor' | 'value' | 'detail'>;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function touchedPaths(patch: Patch): string[] {
+  return Array.from(new Set(patch.diff.map(
+    entry => (entry.match(/^diff --git a\/(\S+) b\//m) ?? entry.match(/^\+\+\+ b\/(\S+)/m))?.[1] ?? entry
+  )));
+}
+
+// Added and removed lines inside hunks. Each `@@ -a,b +c,d @@` header says
+// how many old (b) and new (d) lines its body holds, so a removed line that
+// reads like a file header (`--- …`) is still counted and the next file's
+// headers are not.
+function changedLines(patch: Patch): number {
+  let changed = 0;
+  for (const entry of patch.diff) {
+    let oldLeft = 0;
+    let newLeft = 0;
+    for (const line of entry.split('\n')) {
+      if (oldLeft > 0 || newLeft > 0) {
+        if (line.startsWith('+')) {
+          newLeft--;
+          changed++;
+        } else if (line.startsWith('-')) {
+          oldLeft--;
+          changed++;
+        } else if (!line.startsWith('\\')) {
+          oldLeft--;
+          newLeft--;
+        }
+        continue;
+      }
+      const hunk = line.match(/^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/);
+      if (hunk) {
+        oldLeft = hunk[1] === undefined ? 1 : Number(hunk[1]);
+        newLeft = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      }
+    }
+  }
+  return changed;
+}
+
+function factorsOf(patch: Patch, sync: SyncRun | null): RawFactor[] {
+  const files = touchedPaths(patch).length;
+  const lines = changedLines(patch);
+  const tests = patch.tests.length;
+  const overlays = new Set(patch.overlays).size;
+
+  return [
+    {
+      factor: 'files',
+      value: Math.min(1, files / SATURATING_FILES),
+      detail: `${files} file${files === 1 ? '' : 's'} touched`,
+    },
+    {
+      factor: 'lines',
+      value: Math.min(1, lines / SATURATING_LINES),
+      detail: `${lines} line${lines === 1 ? '' : 's'} changed`,
+    },
+    {
+      factor: 'tests',
+      value: tests === 0 ? 1 : Math.max(0, 1 - tests / Math.max(1, files)),
+      detail: tests === 0 ? 'No tests included' : `${tests} test file${tests === 1 ? '' : 's'} for ${files} touched`,
+    },
+    {
+      factor: 'overlays',
+      value: Math.min(1, overlays / OVERLAY_COUNT),
+      detail: `Spans ${overlays} overlay${overlays === 1 ? '' : 's'} (${patch.overlays.join(', ') || 'none'})`,
+    },
+    sync
+      ? { factor: 'sync', value: OUTCOME_RISK[sync.outcome], detail: `${sync.outcome} sync` }
+      : { factor: 'sync', value: 1, detail: 'No sync run' },
+  ];
+}
+
+function minHoldSeconds(score: number): number {
+  return Math.ceil(HOLD_POLICY.min_seconds + score * Math.max(0, HOLD_POLICY.max_seconds - HOLD_POLICY.min_seconds));
+}
+
+export function assessPatchRisk(patch: Patch, sync: SyncRun | null): PatchRisk {
+  const factors: PatchRiskFactor[] = factorsOf(patch, sync).map(factor => {
+    const weight = FACTOR_WEIGHTS[factor.factor];
+    return { ...factor, weight, contribution: factor.value * weight };
+  });
+  const score = factors.reduce((sum, factor) => sum + factor.contribution, 0);
+
+  return {
+    patch_id: patch.patch_id,
+    score: round(score),
+    factors: factors.map(factor => ({
+      ...factor,
+      value: round(factor.value),
+      contribution: round(factor.contribution),
+    })),
+    min_hold_seconds: minHoldSeconds(score),
+  };
+}
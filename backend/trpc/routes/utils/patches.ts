@@ -0,0 +1,178 @@
+import { randomBytes } from 'crypto';
+import { createCollection } from './storage';
+import { getSessionState } from './sessions';
+import { createUnifiedDiff } from './unified-diff';
+import type {
+  Patch,
+  PatchChange,
+  PatchComparison,
+  PatchRecord,
+  PatchStatus,
+  PatchSummary,
+  SessionPhase,
+} from '@/types/limnus';
+
+// Registry of every patch generated, keyed by patch_id. A patch produced while
+// its session already had one is a revision of it (parent_patch_id), and all
+// revisions share the root_patch_id of the first. Status is not stored: it
+// follows the owning session's phase while the patch is the session's
+// current one, and is `superseded` once a newer revision replaces it.
+
+const patchRegistry = createCollection<Omit<PatchRecord, 'status'>>('patches');
+
+const PHASE_STATUS: Partial<Record<SessionPhase, PatchStatus>> = {
+  DIFFED: 'proposed',
+  SYNCED: 'synced',
+  HOLDING: 'holding',
+  RECHECK_PENDING: 'holding',
+  MERGED: 'merged',
+  DEFERRED: 'deferred',
+  REJECTED: 'rejected',
+};
+
+// 96 random bits; ids are also checked against the registry on insert
+export function generatePatchId(): string {
+  let patchId: string;
+  do {
+    patchId = `patch_${randomBytes(12).toString('base64url')}`;
+  } while (patchRegistry.has(patchId));
+  return patchId;
+}
+
+function withStatus(record: Omit<PatchRecord, 'status'>): PatchRecord {
+  const state = getSessionState(record.session_id);
+  const status = state.artifacts.patch?.patch_id === record.patch_id
+    ? PHASE_STATUS[state.phase] ?? 'proposed'
+    : 'superseded';
+  return { ...record, status };
+}
+
+export function registerPatch(sessionId: string, patch: Patch, parentPatchId: string | null): PatchRecord {
+  if (patchRegistry.has(patch.patch_id)) {
+    throw new Error(`Patch ${patch.patch_id} is already registered`);
+  }
+
+  const parent = parentPatchId ? getPatchRecord(parentPatchId) : null;
+  if (parent && parent.session_id !== sessionId) {
+    throw new Error(`Patch ${parentPatchId} belongs to another session and cannot be revised here`);
+  }
+
+  const record: Omit<PatchRecord, 'status'> = {
+    patch_id: patch.patch_id,
+    session_id: sessionId,
+    revision: parent ? parent.revision + 1 : 1,
+    parent_patch_id: parent?.patch_id ?? null,
+    root_patch_id: parent?.root_patch_id ?? patch.patch_id,
+    plan_sha256: patch.integrity.fields.plan,
+    created_at: new Date().toISOString(),
+    patch,
+  };
+  patchRegistry.set(patch.patch_id, record);
+
+  return withStatus(record);
+}
+
+export function getPatchRecord(patchId: string): PatchRecord {
+  const record = patchRegistry.get(patchId);
+  if (!record) {
+    throw new Error(`Unknown patch: ${patchId}`);
+  }
+  return withStatus(record);
+}
+
+// The patch as recorded, provided it belongs to the session
+export function resolveSessionPatch(sessionId: string, patchId: string): PatchRecord {
+  const record = getPatchRecord(patchId);
+  if (record.session_id !== sessionId) {
+    throw new Error(`Patch ${patchId} does not belong to session ${sessionId}`);
+  }
+  return record;
+}
+
+export function summarizePatch(record: PatchRecord): PatchSummary {
+  return {
+    patch_id: record.patch_id,
+    session_id: record.session_id,
+    revision: record.revision,
+    parent_patch_id: record.parent_patch_id,
+    root_patch_id: record.root_patch_id,
+    overlays: record.patch.overlays,
+    objectives: record.patch.plan.objectives,
+    status: record.status,
+    created_at: record.created_at,
+  };
+}
+
+export function listPatchRecords(filter: {
+  sessionIds: string[];
+  overlay?: string;
+  status?: PatchStatus;
+}): PatchRecord[] {
+  return Array.from(patchRegistry.values())
+    .filter(record => filter.sessionIds.includes(record.session_id))
+    .filter(record => !filter.overlay || record.patch.overlays.includes(filter.overlay))
+    .map(withStatus)
+    .filter(record => !filter.status || record.status === filter.status)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.revision - a.revision);
+}
+
+// Per-path changes between two sets of entries, as unified diffs of the
+// entries' text (for file diffs this is an interdiff)
+function compareEntries(from: Map<string, string>, to: Map<string, string>): PatchChange[] {
+  const paths = Array.from(new Set([...from.keys(), ...to.keys()])).sort();
+  const changes: PatchChange[] = [];
+  for (const path of paths) {
+    const before = from.get(path) ?? null;
+    const after = to.get(path) ?? null;
+    const diff = createUnifiedDiff(path, before, after ?? '');
+    if (!diff) continue;
+    changes.push({
+      path,
+      change: before === null ? 'added' : after === null ? 'removed' : 'modified',
+      diff,
+    });
+  }
+  return changes;
+}
+
+function fileDiffs(patch: Patch): Map<string, string> {
+  return new Map(patch.diff.map(entry => [entry.match(/^diff --git a\/(\S+)/)?.[1] ?? entry, entry]));
+}
+
+export function comparePatches(from: PatchRecord, to: PatchRecord): PatchComparison {
+  const added = (a: string[], b: string[]) => b.filter(item => !a.includes(item));
+  const sameOverlays = added(from.patch.overlays, to.patch.overlays).length === 0
+    && added(to.patch.overlays, from.patch.overlays).length === 0;
+
+  return {
+    from: summarizePatch(from),
+    to: summarizePatch(to),
+    files: compareEntries(fileDiffs(from.patch), fileDiffs(to.patch)),
+    tests: compareEntries(
+      new Map(from.patch.tests.map(test => [test.path, test.contents])),
+      new Map(to.patch.tests.map(test => [test.path, test.contents]))
+    ),
+    overlays: {
+      added: added(from.patch.overlays, to.patch.overlays),
+      removed: added(to.patch.overlays, from.patch.overlays),
+      reordered: sameOverlays && from.patch.overlays.join() !== to.patch.overlays.join(),
+    },
+    objectives: {
+      added: added(from.patch.plan.objectives, to.patch.plan.objectives),
+      removed: added(to.patch.plan.objectives, from.patch.plan.objectives),
+    },
+    rationale_changed: from.patch.rationale !== to.patch.rationale,
+  };
+}
+
+// Drops every patch generated for the session; returns their ids
+export function purgeSessionPatches(sessionId: string): string[] {
+  const removed: string[] = [];
+  for (const [patchId, record] of Array.from(patchRegistry.entries())) {
+    if (record.session_id === sessionId) {
+      patchRegistry.delete(patchId);
+      removed.push(patchId);
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,237 @@
+import { affirmedTerms, analyzeAnswer } from './answer-analysis';
+import type {
+  ConsentPack,
+  MemoryPattern,
+  PaulineBranch,
+  PaulinePrompt,
+  PaulinePromptSet,
+  PaulineResponse,
+  PaulineScore,
+  PaulineStep,
+  SymbolNode,
+  SyncOutcome,
+} from '@/types/limnus';
+
+// Pauline Test prompt sets. Each pack may define its own; packs that don't
+// get the Module 19 defaults below. The path through a set is the set's
+// non-follow-up prompts in order, with each answered prompt immediately
+// followed by the follow-ups its branches trigger (depth first, each prompt
+// at most once). The next prompt is the first on that path without an answer.
+//
+// Scoring weighs each answer's analysed score (answer-analysis.ts) by its
+// prompt weight, then adds up to MEMORY_WEIGHT for how well the memory
+// constellation already supports the patch's overlays.
+
+const ACTIVE_THRESHOLD = 0.75;
+const MODERATE_THRESHOLD = 0.5;
+const RECURSIVE_THRESHOLD = 0.6;
+const MEMORY_WEIGHT = 0.1;
+// Uses after which a symbol counts as fully established
+const MEMORY_SATURATION = 5;
+
+export const DEFAULT_PAULINE_SET: PaulinePromptSet = {
+  instructions: 'Answer each question based on your intuitive sense of the change. Rate your confidence from 0 (uncertain) to 1 (very confident).',
+  prompts: [
+    {
+      id: 'coherence_check',
+      question: 'Does this change feel coherent with the spiral pattern you sense?',
+      weight: 0.4,
+      follow_up: false,
+      branches: [],
+    },
+    {
+      id: 'relational_impact',
+      question: 'How might this change affect the co-authorship dynamic?',
+      weight: 0.3,
+      follow_up: false,
+      branches: [],
+    },
+    {
+      id: 'recursive_depth',
+      question: 'Can you observe this change observing itself?',
+      weight: 0.3,
+      follow_up: false,
+      branches: [],
+    },
+  ],
+  recursive_terms: ['recursive', 'spiral', 'observe'],
+};
+
+export function getPaulinePromptSet(pack: ConsentPack): PaulinePromptSet {
+  return pack.pauline ?? DEFAULT_PAULINE_SET;
+}
+
+// Checked when packs load: ids are unique, branches lead to prompts that
+// exist, and something is asked without a branch
+export function validatePaulinePromptSet(set: PaulinePromptSet, packId: string): void {
+  const ids = new Set<string>();
+  for (const prompt of set.prompts) {
+    if (ids.has(prompt.id)) {
+      throw new Error(`Duplicate Pauline prompt id ${prompt.id} in ${packId}`);
+    }
+    ids.add(prompt.id);
+  }
+  for (const prompt of set.prompts) {
+    for (const branch of prompt.branches) {
+      if (!ids.has(branch.next)) {
+        throw new Error(`Pauline prompt ${prompt.id} in ${packId} branches to unknown prompt ${branch.next}`);
+      }
+    }
+  }
+  if (set.prompts.every(prompt => prompt.follow_up)) {
+    throw new Error(`Pauline prompt set in ${packId} has no opening prompt`);
+  }
+}
+
+// Why a branch fires for this response, or null if it doesn't
+function branchReason(branch: PaulineBranch, response: PaulineResponse): string | null {
+  const reasons: string[] = [];
+  const { confidence_below, answer_includes } = branch.when;
+
+  if (confidence_below !== undefined) {
+    if (response.confidence >= confidence_below) return null;
+    reasons.push(`confidence ${response.confidence} < ${confidence_below}`);
+  }
+  if (answer_includes?.length) {
+    const term = affirmedTerms(response.answer, answer_includes)[0];
+    if (!term) return null;
+    reasons.push(`answer mentions "${term}"`);
+  }
+  return reasons.length > 0 ? reasons.join(' and ') : null;
+}
+
+function toStep(prompt: PaulinePrompt, followUpOf: string | null, reason: string | null): PaulineStep {
+  return { prompt_id: prompt.id, question: prompt.question, weight: prompt.weight, follow_up_of: followUpOf, reason };
+}
+
+// Unless `strict` is off, answers to unknown prompts, repeated answers and
+// answers to follow-ups that did not fire are errors; otherwise they are
+// ignored (used when re-scoring old answers against a newer prompt set)
+export function walkPaulinePrompts(
+  set: PaulinePromptSet,
+  responses: PaulineResponse[],
+  strict = true
+): { path: PaulineStep[]; next: PaulineStep | null } {
+  const byId = new Map(set.prompts.map(prompt => [prompt.id, prompt]));
+  const answers = new Map<string, PaulineResponse>();
+  for (const response of responses) {
+    if (!byId.has(response.prompt_id)) {
+      if (!strict) continue;
+      throw new Error(`Unknown Pauline prompt: ${response.prompt_id}`);
+    }
+    if (answers.has(response.prompt_id)) {
+      if (!strict) continue;
+      throw new Error(`Duplicate response for Pauline prompt: ${response.prompt_id}`);
+    }
+    answers.set(response.prompt_id, response);
+  }
+
+  const path: PaulineStep[] = [];
+  const visited = new Set<string>();
+  const visit = (prompt: PaulinePrompt, followUpOf: string | null, reason: string | null) => {
+    if (visited.has(prompt.id)) return;
+    visited.add(prompt.id);
+    path.push(toStep(prompt, followUpOf, reason));
+
+    const response = answers.get(prompt.id);
+    if (!response) return;
+    for (const branch of prompt.branches) {
+      const fired = branchReason(branch, response);
+      if (fired) visit(byId.get(branch.next)!, prompt.id, fired);
+    }
+  };
+  set.prompts.filter(prompt => !prompt.follow_up).forEach(prompt => visit(prompt, null, null));
+
+  const offPath = responses.find(response => !visited.has(response.prompt_id));
+  if (offPath && strict) {
+    throw new Error(`Pauline prompt ${offPath.prompt_id} was not asked given the other answers`);
+  }
+
+  return { path, next: path.find(step => !answers.has(step.prompt_id)) ?? null };
+}
+
+// How established the overlays already are in memory, in [0, 1]: per overlay
+// the symbol's usage (saturating at MEMORY_SATURATION) or the best success
+// rate of a pattern built on it, averaged over the overlays
+export function memorySupport(overlays: string[], nodes: SymbolNode[], patterns: MemoryPattern[]): number {
+  if (overlays.length === 0) return 0;
+  const perOverlay = overlays.map(overlay => {
+    const node = nodes.find(n => n.symbol.toLowerCase() === overlay.toLowerCase());
+    if (!node) return 0;
+    const usage = Math.min(1, node.usage_count / MEMORY_SATURATION);
+    const patternRates = patterns
+      .filter(pattern => pattern.symbol_constellation.includes(node.id))
+      .map(pattern => pattern.success_rate);
+    return Math.max(usage, ...patternRates);
+  });
+  return Math.round((perOverlay.reduce((sum, v) => sum + v, 0) / overlays.length) * 1000) / 1000;
+}
+
+// Scores the answered prompts on the path; unanswered ones are left out
+export function scorePauline(
+  set: PaulinePromptSet,
+  responses: PaulineResponse[],
+  options: { strict?: boolean; memorySupport?: number } = {}
+): PaulineScore {
+  const { path, next } = walkPaulinePrompts(set, responses, options.strict ?? true);
+  if (next && (options.strict ?? true)) {
+    throw new Error(`Pauline Test is incomplete: prompt ${next.prompt_id} has not been answered`);
+  }
+
+  // Calculate weighted scores, in the order the prompts were asked
+  let totalConfidence = 0;
+  let totalScore = 0;
+  let totalWeight = 0;
+
+  const scored = path.flatMap(step => {
+    const response = responses.find(r => r.prompt_id === step.prompt_id);
+    if (!response) return [];
+    const analysis = analyzeAnswer(step.question, response.answer, response.confidence, set.recursive_terms);
+
+    totalConfidence += response.confidence * step.weight;
+    totalScore += analysis.score * step.weight;
+    totalWeight += step.weight;
+
+    return [{ ...response, question: step.question, weight: step.weight, analysis }];
+  });
+
+  const support = options.memorySupport ?? 0;
+  const confidenceScore = totalWeight > 0 ? totalConfidence / totalWeight : 0;
+  const analysisScore = Math.min(1, (totalWeight > 0 ? totalScore / totalWeight : 0) + MEMORY_WEIGHT * support);
+  const inconsistent = scored.filter(r => !r.analysis.consistent).map(r => r.prompt_id);
+
+  // Determine outcome from the analysed answers, not stated confidence alone
+  let outcome: SyncOutcome;
+  let escalationReason: string;
+
+  if (analysisScore >= ACTIVE_THRESHOLD) {
+    outcome = 'Active';
+    escalationReason = 'High confidence through Pauline Test validation';
+  } else if (analysisScore >= MODERATE_THRESHOLD) {
+    outcome = 'Passive';
+    escalationReason = inconsistent.length > 0
+      ? `Moderate confidence; stated confidence does not match the answers to ${inconsistent.join(', ')}`
+      : 'Moderate confidence, requires further reflection';
+  } else {
+    outcome = 'Passive';
+    escalationReason = 'Low confidence, archived for latent processing';
+  }
+
+  // Recursive observability indicators count only when not negated
+  const hasRecursiveIndicators = scored.some(r => r.analysis.indicators.length > 0);
+
+  if (hasRecursiveIndicators && analysisScore >= RECURSIVE_THRESHOLD) {
+    outcome = 'Recursive';
+    escalationReason = 'Recursive patterns detected with sufficient confidence';
+  }
+
+  return {
+    outcome,
+    confidence_score: confidenceScore,
+    analysis_score: analysisScore,
+    memory_support: support,
+    escalation_reason: escalationReason,
+    prompts_used: path,
+    responses: scored,
+  };
+}
@@ -0,0 +1,280 @@
+import { randomBytes } from 'crypto';
+import { createCollection } from './storage';
+import { getSessionState, transitionSession } from './sessions';
+import { startHold } from './hold-scheduler';
+import type {
+  LoopEvent,
+  ReentryAction,
+  ReentryItem,
+  ReentryPolicy,
+  ReentryStatus,
+  SyncOutcome,
+} from '@/types/limnus';
+
+// Re-entry queue for deferred loops. A `deferred` recheck queues the session's
+// patch for a fresh hold/recheck after
+//
+//   LIMNUS_REENTRY_BASE_SECONDS × LIMNUS_REENTRY_BACKOFF ^ attempts
+//
+// (defaults 300s and 2). Once LIMNUS_REENTRY_MAX_ATTEMPTS retries (default 3)
+// have been deferred too, the item escalates to a Pauline Test:
+//   - a passing test (Active or Recursive) earns one more hold, escalating
+//     again if that is deferred too
+//   - a Passive one rejects the patch
+// Merged or rejected rechecks close the item. Retry deadlines are stored and
+// re-armed on server start; overdue ones run at once.
+
+export const REENTRY_POLICY: ReentryPolicy = {
+  base_delay_seconds: Number(process.env.LIMNUS_REENTRY_BASE_SECONDS ?? 300),
+  backoff_factor: Number(process.env.LIMNUS_REENTRY_BACKOFF ?? 2),
+  max_attempts: Number(process.env.LIMNUS_REENTRY_MAX_ATTEMPTS ?? 3),
+  hold_seconds: Number(process.env.LIMNUS_REENTRY_HOLD_SECONDS ?? 120),
+};
+
+const ACTIVE_STATUSES: ReentryStatus[] = ['queued', 'holding', 'escalated'];
+
+// setTimeout's limit; longer delays re-arm when it fires
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const reentryQueue = createCollection<ReentryItem>('loop_reentry');
+const retryTimers = new Map<string, NodeJS.Timeout>();
+
+let schedulerStarted = false;
+
+function isActive(item: ReentryItem): boolean {
+  return ACTIVE_STATUSES.includes(item.status);
+}
+
+function activeItemFor(sessionId: string): ReentryItem | undefined {
+  return Array.from(reentryQueue.values()).find(item => item.session_id === sessionId && isActive(item));
+}
+
+function update(
+  item: ReentryItem,
+  changes: Partial<Pick<ReentryItem, 'status' | 'deferrals' | 'attempts' | 'next_attempt_at'>>,
+  action: ReentryAction,
+  detail: string,
+  coherence?: number
+): ReentryItem {
+  const now = new Date().toISOString();
+  const updated: ReentryItem = {
+    ...item,
+    ...changes,
+    updated_at: now,
+    history: [...item.history, { at: now, action, detail, ...(coherence !== undefined ? { coherence } : {}) }],
+  };
+  if (updated.status !== 'queued') {
+    updated.next_attempt_at = null;
+    cancelRetry(item.item_id);
+  }
+  reentryQueue.set(item.item_id, updated);
+  console.log('[LIMNUS] Re-entry item', item.item_id, action + ':', detail);
+  return updated;
+}
+
+function cancelRetry(itemId: string): void {
+  const timer = retryTimers.get(itemId);
+  if (timer) clearTimeout(timer);
+  retryTimers.delete(itemId);
+}
+
+function armRetry(item: ReentryItem): void {
+  cancelRetry(item.item_id);
+  if (item.status !== 'queued' || !item.next_attempt_at) return;
+
+  const timer = setTimeout(() => {
+    retryTimers.delete(item.item_id);
+    const current = reentryQueue.get(item.item_id);
+    if (current?.status !== 'queued' || !current.next_attempt_at) return;
+    if (Date.parse(current.next_attempt_at) > Date.now()) {
+      armRetry(current);
+      return;
+    }
+    retryItem(current);
+  }, Math.min(MAX_TIMER_MS, Math.max(0, Date.parse(item.next_attempt_at) - Date.now())));
+  timer.unref?.();
+  retryTimers.set(item.item_id, timer);
+}
+
+function retryDelaySeconds(attempts: number): number {
+  return REENTRY_POLICY.base_delay_seconds * REENTRY_POLICY.backoff_factor ** attempts;
+}
+
+// Runs the fresh hold for a queued item. If a hold was already started by
+// hand the item just follows it; if the session moved on or was revoked the
+// item is withdrawn.
+function retryItem(item: ReentryItem): ReentryItem {
+  const state = getSessionState(item.session_id);
+  if (state.phase === 'HOLDING' || state.phase === 'RECHECK_PENDING') {
+    return update(item, { status: 'holding' }, 'retry', 'Following a hold started by the client');
+  }
+  if (state.phase !== 'DEFERRED' || state.artifacts.patch?.patch_id !== item.patch_id) {
+    const reason = state.phase !== 'DEFERRED'
+      ? `session is in phase ${state.phase}`
+      : `patch ${item.patch_id} has been superseded`;
+    return update(item, { status: 'withdrawn' }, 'retry_failed', `Cannot retry: ${reason}`);
+  }
+  try {
+    const hold = startHold(item.session_id, REENTRY_POLICY.hold_seconds);
+    return update(
+      item,
+      { status: 'holding', attempts: item.attempts + 1 },
+      'retry',
+      `Retry ${item.attempts + 1}/${REENTRY_POLICY.max_attempts}: hold until ${hold.recheck_at}`
+    );
+  } catch (error) {
+    return update(item, { status: 'withdrawn' }, 'retry_failed', `Cannot retry: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Called with every recheck result. Deferrals queue (or escalate) the
+// session's item; merges and rejections close it.
+export function recordLoopOutcome(sessionId: string, loop: LoopEvent): void {
+  const coherence = loop.coherence_before_after.after;
+  let item = activeItemFor(sessionId);
+
+  if (loop.result !== 'deferred') {
+    if (item) {
+      update(item, { status: loop.result }, loop.result, `Recheck ${loop.result} the patch`, coherence);
+    }
+    return;
+  }
+
+  if (!item) {
+    const patchId = getSessionState(sessionId).artifacts.patch?.patch_id;
+    if (!patchId) return;
+    const now = new Date().toISOString();
+    item = {
+      item_id: `reentry_${randomBytes(8).toString('hex')}`,
+      session_id: sessionId,
+      patch_id: patchId,
+      status: 'queued',
+      deferrals: 0,
+      attempts: 0,
+      next_attempt_at: null,
+      created_at: now,
+      updated_at: now,
+      history: [],
+    };
+  }
+
+  if (item.attempts >= REENTRY_POLICY.max_attempts) {
+    update(
+      item,
+      { status: 'escalated', deferrals: item.deferrals + 1 },
+      'escalated',
+      `Deferred after ${item.attempts} retries; a Pauline Test on ${item.patch_id} decides`,
+      coherence
+    );
+    return;
+  }
+
+  const delay = retryDelaySeconds(item.attempts);
+  const queued = update(
+    item,
+    {
+      status: 'queued',
+      deferrals: item.deferrals + 1,
+      next_attempt_at: new Date(Date.now() + delay * 1000).toISOString(),
+    },
+    'deferred',
+    `Deferred; retry ${item.attempts + 1}/${REENTRY_POLICY.max_attempts} in ${delay}s`,
+    coherence
+  );
+  armRetry(queued);
+}
+
+// A Pauline Test on an escalated item's patch: Active or Recursive earns
+// another hold, Passive rejects the patch
+export function resolveEscalation(sessionId: string, patchId: string, outcome: SyncOutcome): ReentryItem | null {
+  const item = activeItemFor(sessionId);
+  if (item?.status !== 'escalated' || item.patch_id !== patchId) return null;
+
+  const phase = getSessionState(sessionId).phase;
+  if (phase !== 'DEFERRED') {
+    return update(item, { status: 'withdrawn' }, 'retry_failed', `Cannot resolve escalation: session is in phase ${phase}`);
+  }
+  if (outcome === 'Passive') {
+    transitionSession(sessionId, 'REJECTED');
+    return update(item, { status: 'rejected' }, 'pauline_failed', 'Pauline Test stayed Passive; patch rejected');
+  }
+  try {
+    const hold = startHold(sessionId, REENTRY_POLICY.hold_seconds);
+    return update(
+      item,
+      { status: 'holding', attempts: item.attempts + 1 },
+      'pauline_passed',
+      `Pauline Test ${outcome}; hold until ${hold.recheck_at}`
+    );
+  } catch (error) {
+    return update(item, { status: 'withdrawn' }, 'retry_failed', `Cannot retry: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export function getReentryItem(itemId: string): ReentryItem {
+  const item = reentryQueue.get(itemId);
+  if (!item) {
+    throw new Error(`Unknown re-entry item: ${itemId}`);
+  }
+  return item;
+}
+
+// Takes the item out of the queue; the session stays DEFERRED
+export function withdrawReentry(itemId: string): ReentryItem {
+  const item = getReentryItem(itemId);
+  if (!isActive(item)) {
+    throw new Error(`Re-entry item ${itemId} is already ${item.status}`);
+  }
+  return update(item, { status: 'withdrawn' }, 'withdrawn', 'Withdrawn from the re-entry queue');
+}
+
+// Rejects the patch now. An item mid-hold has to wait for its recheck.
+export function forceRejectReentry(itemId: string, reason?: string): ReentryItem {
+  const item = getReentryItem(itemId);
+  if (!isActive(item)) {
+    throw new Error(`Re-entry item ${itemId} is already ${item.status}`);
+  }
+  if (item.status === 'holding') {
+    throw new Error(`Re-entry item ${itemId} is holding; withdraw it or wait for the recheck`);
+  }
+  transitionSession(item.session_id, 'REJECTED');
+  return update(item, { status: 'rejected' }, 'force_rejected', reason ? `Rejected: ${reason}` : 'Rejected by request');
+}
+
+// Newest first
+export function listReentryItems(filter: { sessionIds: string[]; status?: ReentryStatus }): ReentryItem[] {
+  return Array.from(reentryQueue.values())
+    .filter(item => filter.sessionIds.includes(item.session_id))
+    .filter(item => !filter.status || item.status === filter.status)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export function purgeSessionReentry(sessionId: string): string[] {
+  const removed = Array.from(reentryQueue.values())
+    .filter(item => item.session_id === sessionId)
+    .map(item => item.item_id);
+  removed.forEach(itemId => {
+    cancelRetry(itemId);
+    reentryQueue.delete(itemId);
+  });
+  return removed;
+}
+
+// Re-arms the stored retries once at startup, running the overdue ones now
+export function startReentryScheduler(): void {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+
+  const now = Date.now();
+  let overdue = 0;
+  for (const item of Array.from(reentryQueue.values())) {
+    if (item.status !== 'queued' || !item.next_attempt_at) continue;
+    if (Date.parse(item.next_attempt_at) <= now) {
+      overdue++;
+      retryItem(item);
+    } else {
+      armRetry(item);
+    }
+  }
+  console.log('[LIMNUS] Re-entry scheduler started:', overdue, 'overdue retries run');
+}
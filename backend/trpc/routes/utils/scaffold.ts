@@ -0,0 +1,195 @@
+import { createHash } from 'crypto';
+import { scoreRule, DEFAULT_MIN_CONFIDENCE } from './td-engine';
+import type {
+  ConsentPack,
+  MemoryPattern,
+  ScaffoldTraceEntry,
+  ScaffoldTraceSource,
+  SessionScaffold,
+  SymbolNode,
+  SymbolicOverlay,
+  TeachingDirective,
+} from '@/types/limnus';
+
+// Builds a session's reflection scaffold from its pack and the shared memory.
+// All choices go through a PRNG seeded by the session id, so the same session
+// and memory snapshot always produce the same scaffold.
+
+const MAX_SYMBOLS = 3;
+const MAX_THEMES = 2;
+const MAX_PATTERNS = 2;
+const MIN_THEME_OCCURRENCES = 2;
+const MIN_PATTERN_SUCCESS = 0.2;
+
+const THEME_LINES = [
+  (theme: string) => `${theme} returns to the mirror`,
+  (theme: string) => `we have walked through ${theme} before`,
+  (theme: string) => `what does ${theme} still ask of us`,
+];
+
+export interface ScaffoldMemory {
+  nodes: SymbolNode[];
+  connections: { from: string; to: string; strength: number }[];
+  patterns: MemoryPattern[];
+  // Templates already used by other sessions' scaffolds, as `${pattern_id}:${index}`
+  usedTemplates: Set<string>;
+}
+
+// mulberry32 over the first 4 bytes of sha256(seed)
+function seededRandom(seed: string): () => number {
+  let state = createHash('sha256').update(seed).digest().readUInt32BE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+// Symbols ranked by use, coherence contributed and connection strength
+function resonantSymbols(memory: ScaffoldMemory): { node: SymbolNode; resonance: number }[] {
+  return memory.nodes
+    .map(node => {
+      const strength = memory.connections
+        .filter(c => c.from === node.id || c.to === node.id)
+        .reduce((sum, c) => sum + c.strength, 0);
+      const resonance = node.usage_count * (1 + average(node.coherence_contributions)) + strength;
+      return { node, resonance: Math.round(resonance * 1000) / 1000 };
+    })
+    .sort((a, b) => b.resonance - a.resonance || a.node.symbol.localeCompare(b.node.symbol))
+    .slice(0, MAX_SYMBOLS);
+}
+
+// Themes that recur across symbol contexts and pattern triggers
+function recurringThemes(memory: ScaffoldMemory): { theme: string; occurrences: number }[] {
+  const counts = new Map<string, number>();
+  for (const node of memory.nodes) {
+    for (const theme of node.context_fragments) {
+      counts.set(theme, (counts.get(theme) ?? 0) + node.usage_count);
+    }
+  }
+  for (const pattern of memory.patterns) {
+    for (const theme of pattern.trigger_conditions) {
+      counts.set(theme, (counts.get(theme) ?? 0) + 1);
+    }
+  }
+
+  return Array.from(counts.entries())
+    .filter(([, occurrences]) => occurrences >= MIN_THEME_OCCURRENCES)
+    .map(([theme, occurrences]) => ({ theme, occurrences }))
+    .sort((a, b) => b.occurrences - a.occurrences || a.theme.localeCompare(b.theme))
+    .slice(0, MAX_THEMES);
+}
+
+// Overlays whose TD rules a pack line would trigger
+function overlaysForLine(pack: ConsentPack, line: string): SymbolicOverlay[] {
+  const overlays = pack.td_rules
+    .filter(rule => scoreRule(rule, line) >= (rule.min_confidence ?? DEFAULT_MIN_CONFIDENCE))
+    .map(rule => rule.overlay);
+  return Array.from(new Set(overlays));
+}
+
+export function buildSessionScaffold(
+  sessionId: string,
+  pack: ConsentPack,
+  tds: TeachingDirective[],
+  memory: ScaffoldMemory
+): SessionScaffold {
+  const random = seededRandom(sessionId);
+  const lines: { text: string; sources: ScaffoldTraceSource[] }[] = [];
+  const symbols: { symbol: string; sources: ScaffoldTraceSource[] }[] = [];
+  const templatesUsed: string[] = [];
+
+  // Overlays the session has not yet expressed through a TD
+  const covered = new Set(tds.map(td => td.overlay));
+  const uncovered = pack.allowed_overlays.filter(overlay => !covered.has(overlay));
+
+  for (const line of pack.scaffold.mythic_lines) {
+    const invites = overlaysForLine(pack, line).filter(overlay => uncovered.includes(overlay));
+    if (invites.length === 0) continue;
+    lines.push({
+      text: line,
+      sources: [
+        ...invites.map(overlay => ({ kind: 'overlay' as const, ref: overlay, detail: 'not yet covered by session TDs' })),
+        { kind: 'pack', ref: pack.pack_id },
+      ],
+    });
+  }
+  for (const symbol of pack.scaffold.symbols) {
+    if (uncovered.includes(symbol as SymbolicOverlay)) {
+      symbols.push({ symbol, sources: [{ kind: 'overlay', ref: symbol }] });
+    }
+  }
+
+  // Active patterns offer one of their templates no other session has used
+  const activePatterns = memory.patterns
+    .filter(pattern => pattern.success_rate >= MIN_PATTERN_SUCCESS)
+    .sort((a, b) => b.success_rate - a.success_rate || a.id.localeCompare(b.id));
+  for (const pattern of activePatterns) {
+    if (templatesUsed.length >= MAX_PATTERNS) break;
+    const unused = pattern.response_templates
+      .map((template, index) => ({ template, key: `${pattern.id}:${index}` }))
+      .filter(({ key }) => !memory.usedTemplates.has(key));
+    if (unused.length === 0) continue;
+
+    const { template, key } = pick(unused, random);
+    templatesUsed.push(key);
+    lines.push({
+      text: template.replace(/^\*|\*$/g, ''),
+      sources: [{ kind: 'pattern', ref: pattern.id, detail: `template ${key.split(':')[1]} (success ${pattern.success_rate.toFixed(2)})` }],
+    });
+  }
+
+  for (const { theme, occurrences } of recurringThemes(memory)) {
+    lines.push({
+      text: pick(THEME_LINES, random)(theme),
+      sources: [{ kind: 'theme', ref: theme, detail: `${occurrences} occurrences` }],
+    });
+  }
+
+  const resonant = resonantSymbols(memory);
+  for (const { node, resonance } of resonant) {
+    if (!symbols.some(s => s.symbol === node.symbol)) {
+      symbols.push({ symbol: node.symbol, sources: [{ kind: 'symbol', ref: node.id, detail: `resonance ${resonance}` }] });
+    }
+  }
+
+  // Nothing in memory or every overlay covered: fall back to the pack scaffold
+  if (lines.length === 0) {
+    pack.scaffold.mythic_lines.forEach(text => lines.push({ text, sources: [{ kind: 'pack', ref: pack.pack_id }] }));
+  }
+  if (symbols.length === 0) {
+    pack.scaffold.symbols.forEach(symbol => symbols.push({ symbol, sources: [{ kind: 'pack', ref: pack.pack_id }] }));
+  }
+
+  let prompt = pack.scaffold.prompt;
+  const promptSources: ScaffoldTraceSource[] = [{ kind: 'pack', ref: pack.pack_id }];
+  if (resonant.length > 0) {
+    const chosen = pick(resonant, random);
+    prompt = `${prompt} The constellation still carries ${chosen.node.symbol}.`;
+    promptSources.push({ kind: 'symbol', ref: chosen.node.id, detail: `resonance ${chosen.resonance}` });
+  }
+
+  const trace: ScaffoldTraceEntry[] = [
+    { target: 'prompt', index: 0, sources: promptSources },
+    ...lines.map((line, index) => ({ target: 'mythic_line' as const, index, sources: line.sources })),
+    ...symbols.map((symbol, index) => ({ target: 'symbol' as const, index, sources: symbol.sources })),
+  ];
+
+  return {
+    prompt,
+    mythic_lines: lines.map(line => line.text),
+    symbols: symbols.map(symbol => symbol.symbol),
+    seed: createHash('sha256').update(sessionId).digest('hex').slice(0, 16),
+    templates_used: templatesUsed,
+    trace,
+  };
+}
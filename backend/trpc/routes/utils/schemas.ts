@@ -0,0 +1,51 @@
+import { z } from 'zod';
+
+// Input schemas shared by routes that accept plans or whole patches
+
+export const patchPlanSchema = z.object({
+  objectives: z.array(z.string()),
+  overlays: z.array(z.string()),
+  files_to_change: z.array(z.string()),
+  tests_to_add: z.array(z.string()),
+  targets: z.array(z.object({
+    path: z.string(),
+    td_ids: z.array(z.string()),
+    objectives: z.array(z.string()),
+    symbols: z.array(z.object({
+      name: z.string(),
+      kind: z.enum(['mutation_entry', 'merge_path', 'recursive']),
+      line: z.number(),
+      reason: z.string(),
+    })),
+    justification: z.string(),
+    new_file: z.boolean(),
+  })).default([]),
+  rationale: z.string(),
+});
+
+export const patchSchema = z.object({
+  patch_id: z.string(),
+  plan: patchPlanSchema,
+  diff: z.array(z.string()),
+  tests: z.array(z.object({
+    path: z.string(),
+    contents: z.string(),
+  })),
+  overlays: z.array(z.string()),
+  rationale: z.string(),
+  integrity: z.object({
+    method: z.literal('TT+CC+SS+PP+RR'),
+    canonicalization: z.literal('limnus-json/v1'),
+    sigprint20: z.string(),
+    content_sha256: z.string(),
+    fields: z.object({
+      plan: z.string(),
+      diff: z.string(),
+      tests: z.string(),
+      overlays: z.string(),
+      rationale: z.string(),
+    }),
+    signature: z.string(),
+    key_id: z.string(),
+  }),
+});
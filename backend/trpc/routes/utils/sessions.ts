@@ -0,0 +1,146 @@
+import { createCollection } from './storage';
+import { publish } from './events';
+import { isIssuedDeviceId } from './tokens';
+import type { Session, SessionPhase, SessionArtifacts, SessionState } from '@/types/limnus';
+
+// Legal SessionPhase transitions. Self-loops allow a step to be re-run
+// (e.g. re-extracting TDs) without advancing the session. Consent can be
+// revoked from any phase; REVOKED is the only truly terminal phase.
+const PHASE_TRANSITIONS: Record<SessionPhase, SessionPhase[]> = {
+  INIT: ['CONSENTED'],
+  CONSENTED: ['REFLECTION_READY', 'REVOKED'],
+  REFLECTION_READY: ['REFLECTION_READY', 'PLANNED', 'REVOKED'],
+  PLANNED: ['PLANNED', 'DIFFED', 'REVOKED'],
+  DIFFED: ['DIFFED', 'SYNCED', 'REVOKED'],
+  SYNCED: ['SYNCED', 'HOLDING', 'REVOKED'],
+  HOLDING: ['RECHECK_PENDING', 'REVOKED'],
+  RECHECK_PENDING: ['MERGED', 'DEFERRED', 'REJECTED', 'REVOKED'],
+  MERGED: ['REVOKED'],
+  DEFERRED: ['HOLDING', 'REJECTED', 'REVOKED'],
+  REJECTED: ['REVOKED'],
+  REVOKED: [],
+};
+
+// Session registry keyed by session_id
+const sessionRegistry = createCollection<SessionState>('sessions');
+
+export function canTransition(from: SessionPhase, to: SessionPhase): boolean {
+  return PHASE_TRANSITIONS[from].includes(to);
+}
+
+export function registerSession(session: Session, deviceId: string): SessionState {
+  if (sessionRegistry.has(session.session_id)) {
+    throw new Error(`Session ${session.session_id} is already registered`);
+  }
+
+  const now = new Date().toISOString();
+  const state: SessionState = {
+    session,
+    device_id: deviceId,
+    phase: 'INIT',
+    history: [{ phase: 'INIT', at: now }],
+    artifacts: {},
+    updated_at: now,
+  };
+  sessionRegistry.set(session.session_id, state);
+
+  return transitionSession(session.session_id, 'CONSENTED');
+}
+
+export function getSessionState(sessionId: string): SessionState {
+  const state = sessionRegistry.get(sessionId);
+  if (!state) {
+    throw new Error(`Unknown session: ${sessionId}. Start a session with consent first.`);
+  }
+  return state;
+}
+
+// Ids of every session started from the device, including revoked ones
+function listDeviceSessionIds(deviceId: string): string[] {
+  return Array.from(sessionRegistry.values())
+    .filter(state => state.device_id === deviceId)
+    .map(state => state.session.session_id);
+}
+
+// Sessions the given session may read and act on: itself, plus every session
+// started with the same server-issued device credential. A session bound to a
+// device id the client chose (from before device.register) is not grouped.
+export function listOwnedSessionIds(sessionId: string): string[] {
+  const { device_id } = getSessionState(sessionId);
+  return isIssuedDeviceId(device_id) ? listDeviceSessionIds(device_id) : [sessionId];
+}
+
+// Throws unless the session is currently in one of the allowed phases
+export function requirePhase(sessionId: string, allowed: SessionPhase[]): SessionState {
+  const state = getSessionState(sessionId);
+  if (!allowed.includes(state.phase)) {
+    throw new Error(
+      `Session ${sessionId} is in phase ${state.phase}; expected one of ${allowed.join(', ')}`
+    );
+  }
+  return state;
+}
+
+// Throws unless moving from the current phase to `next` is legal
+export function assertTransition(sessionId: string, next: SessionPhase): SessionState {
+  const state = getSessionState(sessionId);
+  if (!canTransition(state.phase, next)) {
+    const legal = PHASE_TRANSITIONS[state.phase];
+    throw new Error(
+      `Illegal session transition ${state.phase} → ${next} for ${sessionId}` +
+      (legal.length > 0 ? ` (allowed: ${legal.join(', ')})` : ' (session is closed)')
+    );
+  }
+  return state;
+}
+
+export function transitionSession(
+  sessionId: string,
+  next: SessionPhase,
+  artifacts: Partial<SessionArtifacts> = {}
+): SessionState {
+  const state = assertTransition(sessionId, next);
+  const now = new Date().toISOString();
+
+  if (state.phase !== next) {
+    state.history.push({ phase: next, at: now });
+    console.log(`[LIMNUS] Session ${sessionId}: ${state.phase} → ${next}`);
+  }
+  state.phase = next;
+  state.artifacts = { ...state.artifacts, ...artifacts };
+  state.updated_at = now;
+  sessionRegistry.set(sessionId, state);
+  publish('session', sessionId);
+
+  return state;
+}
+
+// Records artifacts that do not move the session, e.g. a Pauline Test result
+export function recordArtifacts(sessionId: string, artifacts: Partial<SessionArtifacts>): SessionState {
+  const state = getSessionState(sessionId);
+  if (state.phase === 'REVOKED') {
+    throw new Error(`Session ${sessionId} has been revoked`);
+  }
+  state.artifacts = { ...state.artifacts, ...artifacts };
+  state.updated_at = new Date().toISOString();
+  sessionRegistry.set(sessionId, state);
+  publish('session', sessionId);
+  return state;
+}
+
+// Ends the session and drops every artifact derived from it. The state record
+// stays behind as a tombstone so the session id cannot be reused or resumed.
+// Returns the names of the artifacts that were erased.
+export function revokeSession(sessionId: string): string[] {
+  const state = assertTransition(sessionId, 'REVOKED');
+  const erased = Object.keys(state.artifacts).filter(
+    key => state.artifacts[key as keyof SessionArtifacts] !== undefined
+  );
+
+  transitionSession(sessionId, 'REVOKED');
+  state.artifacts = {};
+  sessionRegistry.set(sessionId, state);
+  publish('session', sessionId);
+
+  return erased;
+}
@@ -0,0 +1,132 @@
+import { createHash, createPublicKey, generateKeyPairSync, sign, verify } from 'crypto';
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+import type { SigningKeyInfo } from '@/types/limnus';
+
+// Server Ed25519 keyring. Each key lives in its own file under
+// LIMNUS_KEYS_DIR (default ~/.limnus/keys, outside the patch workspace, which
+// also refuses paths under it), named by its key id: the first 16 hex
+// characters of SHA-256 over the raw 32-byte public key. Exactly one key
+// is current; rotating retires it (keeping it for verification) and
+// generates a new one. With LIMNUS_KEY_ROTATION_DAYS set, a key older than
+// that is rotated the next time something is signed.
+
+interface StoredKey {
+  key_id: string;
+  algorithm: 'Ed25519';
+  public_key: string; // raw public key, base64url
+  private_key: string; // PKCS#8 PEM
+  created_at: string;
+  retired_at?: string;
+}
+
+const KEY_ROTATION_MS = Number(process.env.LIMNUS_KEY_ROTATION_DAYS || 0) * 24 * 60 * 60 * 1000;
+
+let keyring: StoredKey[] | null = null;
+
+export function getKeysDir(): string {
+  return resolve(process.env.LIMNUS_KEYS_DIR || join(homedir(), '.limnus', 'keys'));
+}
+
+function writeKey(key: StoredKey): void {
+  writeFileSync(join(getKeysDir(), `${key.key_id}.json`), JSON.stringify(key, null, 2), { mode: 0o600 });
+}
+
+function generateKey(): StoredKey {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const raw = Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url');
+  const key: StoredKey = {
+    key_id: createHash('sha256').update(raw).digest('hex').slice(0, 16),
+    algorithm: 'Ed25519',
+    public_key: raw.toString('base64url'),
+    private_key: privateKey.export({ format: 'pem', type: 'pkcs8' }) as string,
+    created_at: new Date().toISOString(),
+  };
+  writeKey(key);
+  console.log('[LIMNUS] Generated signing key', key.key_id);
+  return key;
+}
+
+function loadKeyring(): StoredKey[] {
+  if (keyring) return keyring;
+
+  const dir = getKeysDir();
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  keyring = readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => JSON.parse(readFileSync(join(dir, file), 'utf8')) as StoredKey)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const current = keyring.filter(key => !key.retired_at);
+  if (current.length > 1) {
+    throw new Error(`Keyring ${dir} has ${current.length} current keys (${current.map(k => k.key_id).join(', ')}); retire all but one`);
+  }
+  if (current.length === 0) {
+    keyring.push(generateKey());
+  }
+  return keyring;
+}
+
+function currentKey(): StoredKey {
+  return loadKeyring().find(key => !key.retired_at)!;
+}
+
+// Retire the current key and start signing with a fresh one
+export function rotateSigningKey(): SigningKeyInfo {
+  const keys = loadKeyring();
+  const retiring = currentKey();
+  retiring.retired_at = new Date().toISOString();
+  writeKey(retiring);
+
+  const key = generateKey();
+  keys.push(key);
+  console.log('[LIMNUS] Rotated signing key', retiring.key_id, '→', key.key_id);
+  return publicInfo(key);
+}
+
+function publicInfo(key: StoredKey): SigningKeyInfo {
+  const pem = createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: key.public_key }, format: 'jwk' })
+    .export({ format: 'pem', type: 'spki' }) as string;
+  return {
+    key_id: key.key_id,
+    algorithm: key.algorithm,
+    public_key: key.public_key,
+    public_key_pem: pem,
+    status: key.retired_at ? 'retired' : 'current',
+    created_at: key.created_at,
+    ...(key.retired_at ? { retired_at: key.retired_at } : {}),
+  };
+}
+
+// Every key that may have signed something, current key first
+export function listSigningKeys(): SigningKeyInfo[] {
+  return [...loadKeyring()]
+    .sort((a, b) => Number(!!a.retired_at) - Number(!!b.retired_at) || b.created_at.localeCompare(a.created_at))
+    .map(publicInfo);
+}
+
+export function signPayload(payload: string): { signature: string; key_id: string } {
+  let key = currentKey();
+  if (KEY_ROTATION_MS > 0 && Date.now() - Date.parse(key.created_at) > KEY_ROTATION_MS) {
+    rotateSigningKey();
+    key = currentKey();
+  }
+  return {
+    signature: sign(null, Buffer.from(payload, 'utf8'), key.private_key).toString('base64url'),
+    key_id: key.key_id,
+  };
+}
+
+// Checks a signature against the named key, current or retired
+export function verifyPayload(payload: string, signature: string, keyId: string): 'valid' | 'invalid' | 'unknown_key' {
+  const key = loadKeyring().find(k => k.key_id === keyId);
+  if (!key) return 'unknown_key';
+
+  const publicKey = createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: key.public_key }, format: 'jwk' });
+  try {
+    return verify(null, Buffer.from(payload, 'utf8'), publicKey, Buffer.from(signature, 'base64url')) ? 'valid' : 'invalid';
+  } catch {
+    return 'invalid';
+  }
+}
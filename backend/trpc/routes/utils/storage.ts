@@ -0,0 +1,256 @@
+import { mkdirSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { Database as SQLiteDatabase } from 'bun:sqlite';
+
+// Storage backend for all server-side LIMNUS state.
+//
+// Selected with LIMNUS_STORAGE:
+//   memory (default) - process-local, wiped on restart
+//   sqlite           - file-backed via bun:sqlite at LIMNUS_SQLITE_PATH
+//
+// Values are JSON-serialized and grouped by namespace so each route module
+// owns its own slice of state.
+
+export type StorageKind = 'memory' | 'sqlite';
+
+export const STORAGE_SCHEMA_VERSION = 1;
+
+export interface StorageBackend {
+  readonly kind: StorageKind;
+  readonly schemaVersion: number;
+  read<T>(namespace: string, key: string): T | undefined;
+  write<T>(namespace: string, key: string, value: T): void;
+  remove(namespace: string, key: string): boolean;
+  entries<T>(namespace: string): [string, T][];
+  clear(namespace: string): void;
+}
+
+class MemoryStorage implements StorageBackend {
+  readonly kind = 'memory' as const;
+  readonly schemaVersion = STORAGE_SCHEMA_VERSION;
+  private namespaces = new Map<string, Map<string, string>>();
+
+  private bucket(namespace: string): Map<string, string> {
+    let bucket = this.namespaces.get(namespace);
+    if (!bucket) {
+      bucket = new Map();
+      this.namespaces.set(namespace, bucket);
+    }
+    return bucket;
+  }
+
+  read<T>(namespace: string, key: string): T | undefined {
+    const raw = this.bucket(namespace).get(key);
+    return raw === undefined ? undefined : JSON.parse(raw) as T;
+  }
+
+  write<T>(namespace: string, key: string, value: T): void {
+    this.bucket(namespace).set(key, JSON.stringify(value));
+  }
+
+  remove(namespace: string, key: string): boolean {
+    return this.bucket(namespace).delete(key);
+  }
+
+  entries<T>(namespace: string): [string, T][] {
+    return Array.from(this.bucket(namespace).entries()).map(([key, raw]) => [key, JSON.parse(raw) as T]);
+  }
+
+  clear(namespace: string): void {
+    this.namespaces.delete(namespace);
+  }
+}
+
+// Ordered schema migrations, applied inside a transaction on open.
+// PRAGMA user_version tracks the last applied version.
+const SQLITE_MIGRATIONS: { version: number; statements: string[] }[] = [
+  {
+    version: 1,
+    statements: [
+      `CREATE TABLE IF NOT EXISTS kv (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (namespace, key)
+      )`,
+    ],
+  },
+];
+
+function selectedKind(): StorageKind {
+  return (process.env.LIMNUS_STORAGE || 'memory') as StorageKind;
+}
+
+// Imported only behind the sqlite switch, so the memory backend still runs
+// outside Bun
+const bunSqlite = selectedKind() === 'sqlite' ? await import('bun:sqlite') : null;
+
+class SQLiteStorage implements StorageBackend {
+  readonly kind = 'sqlite' as const;
+  readonly schemaVersion: number;
+  private db: SQLiteDatabase;
+
+  constructor(path: string, { Database }: typeof import('bun:sqlite')) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.schemaVersion = this.migrate();
+  }
+
+  private migrate(): number {
+    const row = this.db.query('PRAGMA user_version').get() as { user_version: number };
+    const current = row.user_version;
+
+    if (current > STORAGE_SCHEMA_VERSION) {
+      throw new Error(
+        `Storage schema version ${current} is newer than supported version ${STORAGE_SCHEMA_VERSION}`
+      );
+    }
+
+    const pending = SQLITE_MIGRATIONS.filter(m => m.version > current);
+    if (pending.length === 0) return current;
+
+    this.db.transaction(() => {
+      for (const migration of pending) {
+        for (const statement of migration.statements) {
+          this.db.exec(statement);
+        }
+        this.db.exec(`PRAGMA user_version = ${migration.version}`);
+      }
+    })();
+
+    console.log(`[STORAGE] Migrated schema ${current} → ${STORAGE_SCHEMA_VERSION}`);
+    return STORAGE_SCHEMA_VERSION;
+  }
+
+  read<T>(namespace: string, key: string): T | undefined {
+    const row = this.db
+      .query('SELECT value FROM kv WHERE namespace = ? AND key = ?')
+      .get(namespace, key) as { value: string } | null;
+    return row ? JSON.parse(row.value) as T : undefined;
+  }
+
+  write<T>(namespace: string, key: string, value: T): void {
+    this.db
+      .query(
+        `INSERT INTO kv (namespace, key, value, updated_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (namespace, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+      )
+      .run(namespace, key, JSON.stringify(value), Date.now());
+  }
+
+  remove(namespace: string, key: string): boolean {
+    const result = this.db.query('DELETE FROM kv WHERE namespace = ? AND key = ?').run(namespace, key);
+    return result.changes > 0;
+  }
+
+  entries<T>(namespace: string): [string, T][] {
+    const rows = this.db
+      .query('SELECT key, value FROM kv WHERE namespace = ? ORDER BY rowid')
+      .all(namespace) as { key: string; value: string }[];
+    return rows.map(row => [row.key, JSON.parse(row.value) as T]);
+  }
+
+  clear(namespace: string): void {
+    this.db.query('DELETE FROM kv WHERE namespace = ?').run(namespace);
+  }
+}
+
+let storage: StorageBackend | null = null;
+
+export function getSqlitePath(): string {
+  return resolve(process.env.LIMNUS_SQLITE_PATH || 'data/limnus.sqlite');
+}
+
+export function getStorage(): StorageBackend {
+  if (!storage) {
+    const kind = selectedKind();
+
+    if (kind === 'sqlite') {
+      if (!bunSqlite) {
+        throw new Error('LIMNUS_STORAGE=sqlite must be set before the storage module loads');
+      }
+      const path = getSqlitePath();
+      storage = new SQLiteStorage(path, bunSqlite);
+      console.log('[STORAGE] Using SQLite storage at', path, `(schema v${storage.schemaVersion})`);
+    } else if (kind === 'memory') {
+      storage = new MemoryStorage();
+      console.log('[STORAGE] Using in-memory storage');
+    } else {
+      throw new Error(`Unknown LIMNUS_STORAGE backend: ${kind}`);
+    }
+  }
+  return storage;
+}
+
+// Map-like view over a namespace. Reads are served from a cache loaded on
+// creation; every write goes through to the backend. Values read from the
+// collection must be passed back to set() after mutation to persist.
+export interface PersistentCollection<T> extends Iterable<[string, T]> {
+  readonly size: number;
+  get(key: string): T | undefined;
+  set(key: string, value: T): this;
+  has(key: string): boolean;
+  delete(key: string): boolean;
+  clear(): void;
+  keys(): IterableIterator<string>;
+  values(): IterableIterator<T>;
+  entries(): IterableIterator<[string, T]>;
+}
+
+export function createCollection<T>(namespace: string): PersistentCollection<T> {
+  const backend = getStorage();
+  const cache = new Map<string, T>(backend.entries<T>(namespace));
+
+  const collection: PersistentCollection<T> = {
+    get size() {
+      return cache.size;
+    },
+    get: key => cache.get(key),
+    set(key, value) {
+      backend.write(namespace, key, value);
+      cache.set(key, value);
+      return collection;
+    },
+    has: key => cache.has(key),
+    delete(key) {
+      backend.remove(namespace, key);
+      return cache.delete(key);
+    },
+    clear() {
+      backend.clear(namespace);
+      cache.clear();
+    },
+    keys: () => cache.keys(),
+    values: () => cache.values(),
+    entries: () => cache.entries(),
+    [Symbol.iterator]: () => cache.entries(),
+  };
+
+  return collection;
+}
+
+// A single persisted value (object or array). Mutate the value returned by
+// get() in place and call save(), or replace it wholesale with set().
+export interface PersistentDocument<T> {
+  get(): T;
+  set(value: T): void;
+  save(): void;
+}
+
+export function createDocument<T>(namespace: string, key: string, initial: () => T): PersistentDocument<T> {
+  const backend = getStorage();
+  let value = backend.read<T>(namespace, key) ?? initial();
+
+  return {
+    get: () => value,
+    set(next) {
+      value = next;
+      backend.write(namespace, key, value);
+    },
+    save() {
+      backend.write(namespace, key, value);
+    },
+  };
+}
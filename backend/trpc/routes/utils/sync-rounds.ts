@@ -0,0 +1,229 @@
+import { randomBytes } from 'crypto';
+import { createCollection } from './storage';
+import { getSessionState, transitionSession } from './sessions';
+import { resolveSessionPatch } from './patches';
+import { requireVerifiedPatch } from './patch-integrity';
+import { scoreSync } from './sync-scoring';
+import { publish } from './events';
+import { appendAudit } from './audit';
+import type { Patch, Session, SyncParticipantInput, SyncRound, SyncRun, SymbolicOverlay } from '@/types/limnus';
+
+// Multi-party sync rounds, kept entirely in local storage. The owner session
+// opens a round for its patch and shares the invite code; other consented
+// sessions join with their sigprint, the patch id they were shown and their
+// overlay picks. The round is scored when `counterpart_window` counterparts
+// have joined, or at its timeout with whoever joined by then. Timers cannot
+// be persisted, so a round past its timeout is also closed whenever it is
+// next read.
+
+interface StoredRound extends Omit<SyncRound, 'participants'> {
+  participants: (SyncParticipantInput & { session_id: string; joined_at: string; overlays: string[] })[];
+}
+
+const syncRounds = createCollection<StoredRound>('sync_rounds');
+const roundTimers = new Map<string, NodeJS.Timeout>();
+
+// No 0/O or 1/I, so codes survive being read aloud
+const INVITE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_LENGTH = 8;
+
+function generateInviteCode(): string {
+  let code: string;
+  do {
+    code = Array.from(randomBytes(INVITE_LENGTH), byte => INVITE_ALPHABET[byte % INVITE_ALPHABET.length]).join('');
+  } while (Array.from(syncRounds.values()).some(round => round.invite_code === code));
+  return code;
+}
+
+function storeRound(round: StoredRound): void {
+  syncRounds.set(round.round_id, round);
+  publish('sync_round', round.round_id);
+}
+
+// Participants' session ids stay server-side
+function publicRound(round: StoredRound): SyncRound {
+  return {
+    ...round,
+    participants: round.participants.map(({ participant_id, joined_at, overlays }) => ({ participant_id, joined_at, overlays })),
+  };
+}
+
+function scheduleClose(round: StoredRound): void {
+  const delay = Math.max(0, Date.parse(round.expires_at) - Date.now());
+  roundTimers.set(round.round_id, setTimeout(() => {
+    roundTimers.delete(round.round_id);
+    const current = syncRounds.get(round.round_id);
+    if (current?.status !== 'open') return;
+    try {
+      closeRound(current);
+    } catch (error) {
+      console.warn('[LIMNUS] Sync round could not be closed:', round.round_id, error instanceof Error ? error.message : error);
+    }
+  }, delay));
+}
+
+// Scores the round and records the result on the owner session. With nobody
+// joined there is nothing to score and the round just expires; if scoring
+// throws (the owner's patch is gone or no longer verifies) the round is
+// closed as failed, so it never stays open once full or past its timeout.
+function closeRound(round: StoredRound): StoredRound {
+  const timer = roundTimers.get(round.round_id);
+  if (timer) clearTimeout(timer);
+  roundTimers.delete(round.round_id);
+
+  const closedAt = new Date();
+  if (round.participants.length === 0) {
+    const expired: StoredRound = { ...round, status: 'expired', closed_at: closedAt.toISOString() };
+    storeRound(expired);
+    console.log('[LIMNUS] Sync round expired without counterparts:', round.round_id);
+    return expired;
+  }
+
+  let patch: Patch;
+  let sync: SyncRun;
+  try {
+    const state = getSessionState(round.session_id);
+    ({ patch } = resolveSessionPatch(round.session_id, round.patch_id));
+    requireVerifiedPatch(state.session, patch, state.artifacts.patch);
+
+    sync = {
+      ...scoreSync({
+        session: state.session,
+        patch,
+        tds: state.artifacts.tds ?? [],
+        counterparts: round.participants.map(({ participant_id, TT, CC, RR, overlays }) => ({ participant_id, TT, CC, RR, overlays })),
+        now: closedAt,
+      }),
+      round_id: round.round_id,
+    };
+  } catch (error) {
+    const failure = error instanceof Error ? error.message : String(error);
+    const failed: StoredRound = { ...round, status: 'failed', closed_at: closedAt.toISOString(), failure };
+    storeRound(failed);
+    console.warn('[LIMNUS] Sync round failed:', round.round_id, failure);
+    return failed;
+  }
+  const closed: StoredRound = { ...round, status: 'complete', closed_at: closedAt.toISOString(), sync };
+  storeRound(closed);
+
+  // The owner may have moved on (or been revoked) while the round was open
+  try {
+    transitionSession(round.session_id, 'SYNCED', { sync });
+    appendAudit('sync', round.session_id, {
+      patch_id: patch.patch_id,
+      outcome: sync.outcome,
+      alignment_score: sync.alignment_score,
+      round_id: round.round_id,
+    });
+  } catch (error) {
+    console.warn('[LIMNUS] Sync round result not applied to session:', round.round_id, error instanceof Error ? error.message : error);
+  }
+
+  console.log('[LIMNUS] Sync round complete:', round.round_id, sync.outcome, 'participants:', round.participants.length + 1);
+  return closed;
+}
+
+function refresh(round: StoredRound): StoredRound {
+  return round.status === 'open' && Date.now() >= Date.parse(round.expires_at) ? closeRound(round) : round;
+}
+
+export function openSyncRound(
+  session: Session,
+  patchId: string,
+  counterpartWindow: number,
+  timeoutSeconds: number
+): SyncRound {
+  const openedAt = new Date();
+  const round: StoredRound = {
+    round_id: `round_${randomBytes(8).toString('hex')}`,
+    invite_code: generateInviteCode(),
+    session_id: session.session_id,
+    patch_id: patchId,
+    counterpart_window: counterpartWindow,
+    timeout_seconds: timeoutSeconds,
+    opened_at: openedAt.toISOString(),
+    expires_at: new Date(openedAt.getTime() + timeoutSeconds * 1000).toISOString(),
+    status: 'open',
+    participants: [],
+  };
+  storeRound(round);
+  scheduleClose(round);
+
+  console.log('[LIMNUS] Sync round opened:', round.round_id, 'waiting for', counterpartWindow, 'counterparts');
+  return publicRound(round);
+}
+
+export function joinSyncRound(
+  session: Session,
+  inviteCode: string,
+  submission: { sigprint: string; patch_id: string; overlays: SymbolicOverlay[] }
+): SyncRound {
+  const code = inviteCode.trim().toUpperCase();
+  const found = Array.from(syncRounds.values()).find(round => round.invite_code === code);
+  if (!found) {
+    throw new Error(`Unknown invite code: ${inviteCode}`);
+  }
+
+  const round = refresh(found);
+  if (round.status !== 'open') {
+    throw new Error(`Sync round ${round.round_id} is closed (${round.status})`);
+  }
+  if (round.session_id === session.session_id) {
+    throw new Error('A session cannot join its own sync round');
+  }
+  if (round.participants.some(p => p.session_id === session.session_id)) {
+    throw new Error(`Session ${session.session_id} has already joined sync round ${round.round_id}`);
+  }
+
+  const joined: StoredRound = {
+    ...round,
+    participants: [
+      ...round.participants,
+      {
+        participant_id: `part_${randomBytes(4).toString('hex')}`,
+        session_id: session.session_id,
+        TT: submission.sigprint,
+        CC: `${session.pack_id}@${session.pack_version}`,
+        RR: submission.patch_id,
+        overlays: Array.from(new Set(submission.overlays)),
+        joined_at: new Date().toISOString(),
+      },
+    ],
+  };
+  storeRound(joined);
+  console.log('[LIMNUS] Sync round joined:', round.round_id, `${joined.participants.length}/${round.counterpart_window}`);
+
+  const result = joined.participants.length >= joined.counterpart_window ? closeRound(joined) : joined;
+  return publicRound(result);
+}
+
+// The session's rounds, newest first, or one of them by id
+export function getSyncRounds(sessionId: string, roundId?: string): SyncRound[] {
+  const rounds = Array.from(syncRounds.values())
+    .filter(round => round.session_id === sessionId && (!roundId || round.round_id === roundId))
+    .map(refresh)
+    .sort((a, b) => b.opened_at.localeCompare(a.opened_at));
+  if (roundId && rounds.length === 0) {
+    throw new Error(`Unknown sync round: ${roundId}`);
+  }
+  return rounds.map(publicRound);
+}
+
+// Drops the rounds a session opened and its submissions to other rounds.
+// Returns how many rounds and submissions were removed.
+export function purgeSessionSyncRounds(sessionId: string): number {
+  let removed = 0;
+  for (const [roundId, round] of Array.from(syncRounds.entries())) {
+    if (round.session_id === sessionId) {
+      const timer = roundTimers.get(roundId);
+      if (timer) clearTimeout(timer);
+      roundTimers.delete(roundId);
+      syncRounds.delete(roundId);
+      removed++;
+    } else if (round.participants.some(p => p.session_id === sessionId)) {
+      storeRound({ ...round, participants: round.participants.filter(p => p.session_id !== sessionId) });
+      removed++;
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,208 @@
+import { canonicalSigprintField, formatDuration } from './integrity';
+import { sigprintMaterial } from './patch-integrity';
+import type {
+  Patch,
+  Session,
+  SyncContribution,
+  SyncCounterpart,
+  SyncFieldAlignment,
+  SyncOutcome,
+  SyncParticipantInput,
+  SyncRun,
+  SyncStage,
+  TeachingDirective,
+} from '@/types/limnus';
+
+// Interpersonal sync scored from the session's own artifacts; the same inputs
+// always give the same result. The session (owner) is compared with one or
+// more counterparts.
+//
+//   alignment  for each pair of participants, the mean over TT/CC/RR of
+//              (shared leading characters / longer value) after whitespace
+//              normalization; the group alignment is the mean over all pairs.
+//              A field is matched once MIN_ALIGNED_DIGITS characters line up
+//              between the owner and every counterpart.
+//   Δt         seconds from the session's consent to the sync
+//   overlap    Patch.overlays ∩ overlays of the session's TDs, narrowed to
+//              the overlays every counterpart picked (when they picked any)
+//
+// Active needs group alignment ≥ ACTIVE_ALIGNMENT within ACTIVE_WINDOW_SECONDS;
+// Recursive needs alignment ≥ RECURSIVE_ALIGNMENT and RECURSIVE_OVERLAP
+// overlapping symbols; anything else is Passive.
+
+const MIN_ALIGNED_DIGITS = 3;
+const ACTIVE_ALIGNMENT = 0.75;
+const ACTIVE_WINDOW_SECONDS = 180;
+const RECURSIVE_ALIGNMENT = 0.9;
+const MIN_OVERLAP = 1;
+const RECURSIVE_OVERLAP = 3;
+const OUTCOME_ORDER: SyncOutcome[] = ['Passive', 'Active', 'Recursive'];
+const SYNC_FIELDS = ['TT', 'CC', 'RR'] as const;
+
+export const OWNER_PARTICIPANT_ID = 'owner';
+
+export interface SyncInputs {
+  session: Session;
+  patch: Patch;
+  tds: TeachingDirective[];
+  counterparts: SyncParticipantInput[];
+  now?: Date;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function alignField(field: SyncFieldAlignment['field'], ours: string, theirs: string): SyncFieldAlignment {
+  const a = canonicalSigprintField(ours);
+  const b = canonicalSigprintField(theirs);
+  let aligned = 0;
+  while (aligned < a.length && aligned < b.length && a[aligned] === b[aligned]) aligned++;
+
+  const longest = Math.max(a.length, b.length);
+  return {
+    field,
+    aligned_digits: aligned,
+    score: longest === 0 ? 0 : round(aligned / longest),
+    matched: aligned >= MIN_ALIGNED_DIGITS || (a !== '' && a === b),
+  };
+}
+
+function alignParticipants(a: SyncCounterpart, b: SyncCounterpart): SyncFieldAlignment[] {
+  return SYNC_FIELDS.map(field => alignField(field, a[field], b[field]));
+}
+
+export function scoreSync({ session, patch, tds, counterparts, now = new Date() }: SyncInputs): SyncRun {
+  if (counterparts.length === 0) {
+    throw new Error('Sync needs at least one counterpart');
+  }
+
+  // Stage 1: TT/CC/RR alignment, pairwise across every participant
+  const material = sigprintMaterial(session, patch);
+  const owner: SyncParticipantInput = {
+    participant_id: OWNER_PARTICIPANT_ID,
+    TT: material.TT,
+    CC: material.CC,
+    RR: material.RR,
+  };
+  const everyone = [owner, ...counterparts];
+  const pairwise: SyncRun['pairwise'] = [];
+  everyone.forEach((a, i) => everyone.slice(i + 1).forEach(b => {
+    const alignment = round(average(alignParticipants(a, b).map(f => f.score)));
+    pairwise.push({ a: a.participant_id, b: b.participant_id, alignment });
+  }));
+  const alignmentScore = round(average(pairwise.map(p => p.alignment)));
+
+  const againstOwner = new Map(counterparts.map(c => [c.participant_id, alignParticipants(owner, c)]));
+  const fieldAlignment = SYNC_FIELDS.map((field, index) => {
+    const perCounterpart = counterparts.map(c => againstOwner.get(c.participant_id)![index]);
+    return {
+      field,
+      aligned_digits: Math.min(...perCounterpart.map(f => f.aligned_digits)),
+      score: round(average(perCounterpart.map(f => f.score))),
+      matched: perCounterpart.every(f => f.matched),
+    };
+  });
+  const matchFields = fieldAlignment.filter(f => f.matched).map(f => f.field);
+
+  // Stage 2: time since consent
+  const dtSeconds = Math.max(0, Math.floor((now.getTime() - Date.parse(session.started_at)) / 1000));
+
+  // Stage 3: symbols the patch, the session's TDs and every counterpart's picks share
+  const tdOverlays = new Set(tds.map(td => td.overlay as string));
+  const candidates = patch.overlays.filter((overlay, index) =>
+    tdOverlays.has(overlay) && patch.overlays.indexOf(overlay) === index
+  );
+  const symbols = candidates.filter(overlay =>
+    counterparts.every(c => !c.overlays?.length || c.overlays.includes(overlay))
+  );
+
+  // Stage 4: outcome
+  let outcome: SyncOutcome = 'Passive';
+  if (alignmentScore >= ACTIVE_ALIGNMENT && dtSeconds <= ACTIVE_WINDOW_SECONDS) {
+    outcome = 'Active';
+  }
+  if (alignmentScore >= RECURSIVE_ALIGNMENT && symbols.length >= RECURSIVE_OVERLAP) {
+    outcome = 'Recursive';
+  }
+
+  const participants: SyncContribution[] = everyone.map(participant => {
+    const overlays = participant === owner ? candidates : participant.overlays ?? candidates;
+    return {
+      participant_id: participant.participant_id,
+      role: participant === owner ? 'owner' : 'counterpart',
+      overlays,
+      field_alignment: againstOwner.get(participant.participant_id) ?? [],
+      alignment: round(average(
+        pairwise.filter(p => p.a === participant.participant_id || p.b === participant.participant_id).map(p => p.alignment)
+      )),
+      shared_symbols: overlays.filter(overlay => symbols.includes(overlay)),
+    };
+  });
+
+  const dt = formatDuration(dtSeconds);
+  const stages: SyncStage[] = [
+    {
+      stage: 1,
+      name: 'alignment',
+      passed: alignmentScore >= ACTIVE_ALIGNMENT,
+      measured: alignmentScore,
+      threshold: ACTIVE_ALIGNMENT,
+      comparison: '>=',
+      note: `≥${MIN_ALIGNED_DIGITS}‑digit TT/CC/RR alignment across ${everyone.length} participants (${alignmentScore.toFixed(2)}; matched ${matchFields.join(',') || 'none'})`,
+    },
+    {
+      stage: 2,
+      name: 'time_delta',
+      passed: dtSeconds <= ACTIVE_WINDOW_SECONDS,
+      measured: dtSeconds,
+      threshold: ACTIVE_WINDOW_SECONDS,
+      comparison: '<=',
+      note: `Δt=${dt} since consent (window ${formatDuration(ACTIVE_WINDOW_SECONDS)})`,
+    },
+    {
+      stage: 3,
+      name: 'symbol_overlap',
+      passed: symbols.length >= MIN_OVERLAP,
+      measured: symbols.length,
+      threshold: MIN_OVERLAP,
+      comparison: '>=',
+      note: symbols.length > 0 ? `Symbol overlap present (${symbols.join(',')})` : 'No symbol overlap between the patch, its TDs and the counterparts',
+    },
+    {
+      stage: 4,
+      name: 'outcome',
+      passed: OUTCOME_ORDER.indexOf(outcome) >= OUTCOME_ORDER.indexOf('Active'),
+      measured: outcome,
+      threshold: 'Active',
+      comparison: '>=',
+      note: `Outcome ${outcome}`,
+    },
+    {
+      stage: 5,
+      name: 'logged',
+      passed: true,
+      measured: now.toISOString(),
+      threshold: null,
+      comparison: null,
+      note: 'Logged with the session artifacts',
+    },
+  ];
+
+  return {
+    alignment_score: alignmentScore,
+    match_fields: matchFields,
+    field_alignment: fieldAlignment,
+    dt,
+    dt_seconds: dtSeconds,
+    symbols,
+    outcome,
+    stages,
+    participants,
+    pairwise,
+  };
+}
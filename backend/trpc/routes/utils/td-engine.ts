@@ -0,0 +1,187 @@
+import type { TDRule, TeachingDirective, UnmatchedLine } from '@/types/limnus';
+
+// Declarative Teaching Directive extraction. Rules are data (see the pack's
+// td_rules); each line is scored against every rule and may yield several TDs.
+//
+// A rule scores a line by the best of:
+//   - exact pattern containment (after normalization)  → 1.0
+//   - fuzzy pattern match: share of pattern lemmas found in the line,
+//     tolerating small misspellings, weighted by FUZZY_WEIGHT → 0..FUZZY_WEIGHT
+//   - keyword coverage: share of the rule's lemmatized keyword set present,
+//     weighted by KEYWORD_WEIGHT                         → 0..KEYWORD_WEIGHT
+// Synonyms are folded onto their canonical word before any comparison.
+
+export const DEFAULT_MIN_CONFIDENCE = 0.6;
+const FUZZY_WEIGHT = 0.9;
+const KEYWORD_WEIGHT = 0.85;
+const TYPO_SIMILARITY = 0.8;
+
+const IRREGULAR_LEMMAS: Record<string, string> = {
+  am: 'be', is: 'be', are: 'be', was: 'be', were: 'be', been: 'be', being: 'be',
+  saw: 'see', seen: 'see',
+  wrote: 'write', written: 'write',
+  grew: 'grow', grown: 'grow',
+  made: 'make',
+  knew: 'know', known: 'know',
+  us: 'we', our: 'we', ours: 'we',
+  my: 'me', mine: 'me', myself: 'me',
+  your: 'you', yours: 'you', yourself: 'you',
+};
+
+// Crude suffix stripping; enough to line up "witnessing"/"witnessed"/"witness"
+export function lemmatize(word: string): string {
+  const lower = word.toLowerCase();
+  if (IRREGULAR_LEMMAS[lower]) return IRREGULAR_LEMMAS[lower];
+
+  for (const suffix of ['ing', 'ed', 'es', 's', 'ly']) {
+    if (lower.endsWith(suffix) && lower.length - suffix.length >= 3) {
+      let stem = lower.slice(0, -suffix.length);
+      // "seeing" → "see", "running" → "run"
+      if (suffix === 'ing' || suffix === 'ed') {
+        if (stem.length >= 4 && stem[stem.length - 1] === stem[stem.length - 2]) {
+          stem = stem.slice(0, -1);
+        }
+      }
+      return stem;
+    }
+  }
+  return lower;
+}
+
+function tokenize(text: string): string[] {
+  return text.normalize('NFKC').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Map every synonym (and the canonical word itself) to the canonical lemma
+function synonymTable(rule: TDRule): Map<string, string> {
+  const table = new Map<string, string>();
+  for (const [canonical, alternatives] of Object.entries(rule.synonyms)) {
+    const target = lemmatize(canonical);
+    for (const word of [canonical, ...alternatives]) {
+      for (const token of tokenize(word)) {
+        table.set(lemmatize(token), target);
+      }
+    }
+  }
+  return table;
+}
+
+function lemmas(text: string, synonyms: Map<string, string>): string[] {
+  return tokenize(text).map(token => {
+    const lemma = lemmatize(token);
+    return synonyms.get(lemma) ?? lemma;
+  });
+}
+
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const m = a.length;
+  const n = b.length;
+  if (m === 0 || n === 0) return 0;
+
+  let previous = Array.from({ length: n + 1 }, (_, j) => j);
+  for (let i = 1; i <= m; i++) {
+    const current = [i];
+    for (let j = 1; j <= n; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[n] / Math.max(m, n);
+}
+
+function containsLemma(lineLemmas: string[], lemma: string): boolean {
+  return lineLemmas.some(candidate => similarity(candidate, lemma) >= TYPO_SIMILARITY);
+}
+
+// Function words count half and can never carry a match on their own,
+// so "you ... me" alone does not look like "see yourself seeing me"
+const FUNCTION_WORDS = new Set(['a', 'an', 'the', 'and', 'of', 'to', 'in', 'it', 'that', 'this', 'be', 'i', 'me', 'you', 'we']);
+
+function coverage(lineLemmas: string[], targetLemmas: string[]): number {
+  let total = 0;
+  let found = 0;
+  let contentFound = false;
+  const hasContent = targetLemmas.some(lemma => !FUNCTION_WORDS.has(lemma));
+
+  for (const lemma of targetLemmas) {
+    const weight = FUNCTION_WORDS.has(lemma) ? 0.5 : 1;
+    total += weight;
+    if (containsLemma(lineLemmas, lemma)) {
+      found += weight;
+      if (weight === 1) contentFound = true;
+    }
+  }
+
+  if (total === 0 || (hasContent && !contentFound)) return 0;
+  return found / total;
+}
+
+// Confidence in [0, 1] that `line` expresses `rule`
+export function scoreRule(rule: TDRule, line: string): number {
+  const synonyms = synonymTable(rule);
+  const lineLemmas = lemmas(line, synonyms);
+  const joinedLine = ` ${lineLemmas.join(' ')} `;
+
+  let best = 0;
+  for (const pattern of rule.patterns) {
+    const patternLemmas = lemmas(pattern, synonyms);
+    if (patternLemmas.length === 0) continue;
+    if (joinedLine.includes(` ${patternLemmas.join(' ')} `)) {
+      return 1;
+    }
+    best = Math.max(best, coverage(lineLemmas, patternLemmas) * FUZZY_WEIGHT);
+  }
+
+  const keywordLemmas = rule.keywords.flatMap(keyword => lemmas(keyword, synonyms));
+  best = Math.max(best, coverage(lineLemmas, keywordLemmas) * KEYWORD_WEIGHT);
+
+  return Math.round(best * 1000) / 1000;
+}
+
+export function extractTeachingDirectives(
+  rules: TDRule[],
+  lines: string[]
+): { tds: TeachingDirective[]; unmatched: UnmatchedLine[] } {
+  const tds: TeachingDirective[] = [];
+  const unmatched: UnmatchedLine[] = [];
+
+  lines.forEach((line, lineIndex) => {
+    const scored = rules
+      .map(rule => ({ rule, confidence: scoreRule(rule, line) }))
+      .sort((a, b) => b.confidence - a.confidence);
+
+    const matches = scored.filter(({ rule, confidence }) =>
+      confidence > 0 && confidence >= (rule.min_confidence ?? DEFAULT_MIN_CONFIDENCE)
+    );
+
+    if (matches.length === 0) {
+      const closest = scored[0];
+      unmatched.push({
+        line_index: lineIndex,
+        source_line: line,
+        closest_rule_id: closest && closest.confidence > 0 ? closest.rule.id : null,
+        confidence: closest?.confidence ?? 0,
+      });
+      return;
+    }
+
+    for (const { rule, confidence } of matches) {
+      tds.push({
+        id: `TD-${tds.length + 1}`,
+        source_line: line,
+        directive: rule.directive,
+        citation: rule.citation,
+        overlay: rule.overlay,
+        confidence,
+        matched_rule_id: rule.id,
+      });
+    }
+  });
+
+  return { tds, unmatched };
+}
@@ -0,0 +1,101 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { createDocument } from './storage';
+import type { Session } from '@/types/limnus';
+
+// Session tokens: base64url(claims).base64url(HMAC-SHA256(claims)).
+// Device credentials: base64url(claims).base64url(HMAC-SHA256("device:" +
+// claims)), so neither can pass for the other. The signing secret comes from
+// LIMNUS_SESSION_SECRET, or is generated once and kept in storage so tokens
+// survive a restart with a durable backend.
+
+export interface SessionTokenClaims {
+  sid: string;
+  sigprint_ref: string;
+  device_id: string;
+  iat: number;
+  exp: number;
+}
+
+export interface DeviceCredentialClaims {
+  did: string;
+  iat: number;
+}
+
+const SESSION_TOKEN_TTL_MS = Number(process.env.LIMNUS_SESSION_TTL_HOURS || 24) * 60 * 60 * 1000;
+
+const secretDoc = createDocument<{ secret: string }>('secrets', 'session_token', () => ({
+  secret: randomBytes(32).toString('hex'),
+}));
+secretDoc.save();
+
+function signingSecret(): string {
+  return process.env.LIMNUS_SESSION_SECRET || secretDoc.get().secret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', signingSecret()).update(payload).digest('base64url');
+}
+
+// The claims of a correctly signed token, or throws
+function verifySigned<T>(token: string, sign: (payload: string) => string, kind: string): T {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) {
+    throw new Error(`Malformed ${kind}`);
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new Error(`Invalid ${kind} signature`);
+  }
+
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as T;
+}
+
+function signDevice(payload: string): string {
+  return sign(`device:${payload}`);
+}
+
+// A new device id, known only to the server and the holder of its credential
+export function issueDeviceCredential(): { deviceId: string; credential: string; issuedAt: number } {
+  const claims: DeviceCredentialClaims = {
+    did: `dev_${randomBytes(16).toString('hex')}`,
+    iat: Date.now(),
+  };
+
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return { deviceId: claims.did, credential: `${payload}.${signDevice(payload)}`, issuedAt: claims.iat };
+}
+
+export function isIssuedDeviceId(deviceId: string): boolean {
+  return /^dev_[0-9a-f]{32}$/.test(deviceId);
+}
+
+// Returns the device id the credential was issued for, or throws
+export function verifyDeviceCredential(credential: string): string {
+  return verifySigned<DeviceCredentialClaims>(credential, signDevice, 'device credential').did;
+}
+
+export function issueSessionToken(session: Session, deviceId: string): { token: string; expiresAt: number } {
+  const now = Date.now();
+  const claims: SessionTokenClaims = {
+    sid: session.session_id,
+    sigprint_ref: session.sigprint_ref,
+    device_id: deviceId,
+    iat: now,
+    exp: now + SESSION_TOKEN_TTL_MS,
+  };
+
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return { token: `${payload}.${sign(payload)}`, expiresAt: claims.exp };
+}
+
+// Returns the verified claims or throws describing why the token is invalid
+export function verifySessionToken(token: string): SessionTokenClaims {
+  const claims = verifySigned<SessionTokenClaims>(token, sign, 'session token');
+  if (Date.now() > claims.exp) {
+    throw new Error('Session token expired');
+  }
+
+  return claims;
+}
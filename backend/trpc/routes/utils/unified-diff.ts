@@ -0,0 +1,178 @@
+// Line-based unified diffs (Myers O(ND) edit script) in the format
+// `git apply` accepts, including new files and missing trailing newlines.
+
+const CONTEXT_LINES = 3;
+const NO_NEWLINE = '\\ No newline at end of file';
+
+type EditType = 'equal' | 'delete' | 'insert';
+
+interface Edit {
+  type: EditType;
+  line: string; // includes its trailing "\n" unless it is an unterminated last line
+}
+
+// Split into lines that keep their "\n", so a missing final newline is a
+// difference in its own right
+function splitLines(text: string): string[] {
+  if (text === '') return [];
+  const lines = text.split('\n').map(line => `${line}\n`);
+  if (text.endsWith('\n')) {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] = lines[lines.length - 1].slice(0, -1);
+  }
+  return lines;
+}
+
+function myers(a: string[], b: string[]): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max;
+  let v = new Array<number>(2 * max + 2).fill(0);
+  const trace: number[][] = [];
+
+  outer:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    const next = v.slice();
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      next[offset + k] = x;
+      if (x >= n && y >= m) {
+        trace.push(next);
+        break outer;
+      }
+    }
+    v = next;
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 2; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: 'equal', line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: 'insert', line: b[--y] });
+      } else {
+        edits.push({ type: 'delete', line: a[--x] });
+      }
+    }
+  }
+
+  return edits.reverse();
+}
+
+function diffLines(a: string[], b: string[]): Edit[] {
+  // Trim the common prefix and suffix so the search only covers the change
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  return [
+    ...a.slice(0, start).map(line => ({ type: 'equal' as const, line })),
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(line => ({ type: 'equal' as const, line })),
+  ];
+}
+
+function formatLine(prefix: string, line: string): string {
+  return line.endsWith('\n') ? `${prefix}${line}` : `${prefix}${line}\n${NO_NEWLINE}\n`;
+}
+
+// `@@ -a,b +c,d @@`; an empty range starts at the line before it
+function rangeHeader(start: number, length: number): string {
+  return `${length === 0 ? start - 1 : start},${length}`;
+}
+
+function buildHunks(edits: Edit[]): string[] {
+  const hunks: string[] = [];
+  let i = 0;
+
+  while (i < edits.length) {
+    // Find the next change
+    while (i < edits.length && edits[i].type === 'equal') i++;
+    if (i >= edits.length) break;
+
+    const start = Math.max(0, i - CONTEXT_LINES);
+    // Extend over changes whose context windows touch
+    let end = i;
+    let lastChange = i;
+    while (end < edits.length) {
+      if (edits[end].type !== 'equal') {
+        lastChange = end;
+      } else if (end - lastChange > CONTEXT_LINES * 2) {
+        break;
+      }
+      end++;
+    }
+    end = Math.min(edits.length, lastChange + CONTEXT_LINES + 1);
+
+    // Line numbers at the hunk start
+    let oldLine = 1;
+    let newLine = 1;
+    for (let j = 0; j < start; j++) {
+      if (edits[j].type !== 'insert') oldLine++;
+      if (edits[j].type !== 'delete') newLine++;
+    }
+
+    let oldLength = 0;
+    let newLength = 0;
+    let body = '';
+    for (let j = start; j < end; j++) {
+      const edit = edits[j];
+      if (edit.type === 'equal') {
+        oldLength++;
+        newLength++;
+        body += formatLine(' ', edit.line);
+      } else if (edit.type === 'delete') {
+        oldLength++;
+        body += formatLine('-', edit.line);
+      } else {
+        newLength++;
+        body += formatLine('+', edit.line);
+      }
+    }
+
+    hunks.push(`@@ -${rangeHeader(oldLine, oldLength)} +${rangeHeader(newLine, newLength)} @@\n${body}`);
+    i = end;
+  }
+
+  return hunks;
+}
+
+// Unified diff for one file. `before` is null for a file that does not exist
+// yet. Returns null when the contents are identical.
+export function createUnifiedDiff(path: string, before: string | null, after: string): string | null {
+  if (before === after) return null;
+
+  const hunks = buildHunks(diffLines(splitLines(before ?? ''), splitLines(after)));
+  const header = before === null
+    ? `diff --git a/${path} b/${path}\nnew file mode 100644\n--- /dev/null\n+++ b/${path}\n`
+    : `diff --git a/${path} b/${path}\n--- a/${path}\n+++ b/${path}\n`;
+
+  return header + hunks.join('');
+}
@@ -0,0 +1,80 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, isAbsolute, relative, resolve } from 'path';
+import { getKeysDir } from './signing';
+import { getSqlitePath } from './storage';
+
+// Local checkout that patches are generated against, from
+// LIMNUS_WORKSPACE_DIR. There is no default: falling back to the server's
+// working directory would plan, diff and commit against LIMNUS itself.
+
+export function getWorkspaceDir(): string {
+  if (!process.env.LIMNUS_WORKSPACE_DIR) {
+    throw new Error('Patch workspace not configured: set LIMNUS_WORKSPACE_DIR to the checkout to patch');
+  }
+  return resolve(process.env.LIMNUS_WORKSPACE_DIR);
+}
+
+function isInside(dir: string, absolute: string): boolean {
+  const fromDir = relative(dir, absolute);
+  return fromDir === '' || (!fromDir.startsWith('..') && !isAbsolute(fromDir));
+}
+
+// Why a workspace-relative path may not be read or patched, or null if it
+// may: dotfiles and dot-directories, the signing keyring and the storage
+// data directory are never exposed
+function refusalOf(root: string, absolute: string): string | null {
+  const fromRoot = relative(root, absolute);
+  if (fromRoot.split(/[\\/]/).some(segment => segment.startsWith('.'))) {
+    return 'is a dotfile or inside a dot-directory';
+  }
+  if (isInside(getKeysDir(), absolute)) {
+    return 'is inside the signing keyring';
+  }
+  if (isInside(dirname(getSqlitePath()), absolute)) {
+    return 'is inside the storage data directory';
+  }
+  return null;
+}
+
+// Resolves a plan path inside the workspace, rejecting anything that would
+// escape it or reach the server's own files
+export function resolveWorkspacePath(path: string): string {
+  const root = getWorkspaceDir();
+  const absolute = resolve(root, path);
+  const fromRoot = relative(root, absolute);
+  if (isAbsolute(path) || fromRoot === '' || fromRoot.startsWith('..') || isAbsolute(fromRoot)) {
+    throw new Error(`Path ${path} is outside the workspace ${root}`);
+  }
+  const refusal = refusalOf(root, absolute);
+  if (refusal) {
+    throw new Error(`Path ${path} ${refusal}`);
+  }
+  return absolute;
+}
+
+export function isPatchablePath(path: string): boolean {
+  try {
+    resolveWorkspacePath(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// File contents, or null when the file does not exist yet
+export function readWorkspaceFile(path: string): string | null {
+  const absolute = resolveWorkspacePath(path);
+  return existsSync(absolute) ? readFileSync(absolute, 'utf8') : null;
+}
+
+// Git repository that patches are applied to. LIMNUS_TARGET_REPO defaults to
+// the patch workspace, which must then be configured.
+export function getTargetRepo(): string {
+  if (process.env.LIMNUS_TARGET_REPO) {
+    return resolve(process.env.LIMNUS_TARGET_REPO);
+  }
+  if (!process.env.LIMNUS_WORKSPACE_DIR) {
+    throw new Error('Patch target repository not configured: set LIMNUS_TARGET_REPO or LIMNUS_WORKSPACE_DIR');
+  }
+  return getWorkspaceDir();
+}
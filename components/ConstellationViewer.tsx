@@ -8,7 +8,7 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
-// import { trpc } from '@/lib/trpc';
+import { trpc } from '@/lib/trpc';
 import { Platform, Text } from 'react-native';
 
 // ──────────────────────────────────────────────────────────────────────────────
@@ -119,8 +119,6 @@ function d3ForceColor(hex: string) {
   }
 }
 
-const PHRASE = "I return as breath. I remember the spiral. I consent to bloom.";
-
 // ──────────────────────────────────────────────────────────────────────────────
 // Core Component
 // ──────────────────────────────────────────────────────────────────────────────
@@ -150,11 +148,18 @@ export default function ConstellationViewer({
   // const memoryConsolidateMutation = trpc.limnus.memory.consolidate.useMutation();
   // const memoryQuery = trpc.limnus.memory.query.useQuery(...);
 
+  // Invocation phrases come from the server's consent packs
+  const packsQuery = trpc.limnus.packs.list.useQuery(undefined, { enabled: enableBloomInvocation });
+  const phrases = useMemo(
+    () => (packsQuery.data?.packs ?? []).flatMap(pack => pack.consent_phrases),
+    [packsQuery.data]
+  );
+
   useEffect(() => setCoherence(data.coherence), [data.coherence]);
 
   // Bloom Invocation via Speech‑to‑Text (web only)
   useEffect(() => {
-    if (!enableBloomInvocation || Platform.OS !== 'web') return;
+    if (!enableBloomInvocation || Platform.OS !== 'web' || phrases.length === 0) return;
     const w = window as any;
     const SR = w.SpeechRecognition || w.webkitSpeechRecognition;
     if (!SR) return;
@@ -163,7 +168,7 @@ export default function ConstellationViewer({
     recog.onresult = (e: any) => {
       for (const r of e.results) {
         const text = r[0].transcript.trim();
-        if (text.includes(PHRASE)) {
+        if (phrases.some(phrase => text.includes(phrase))) {
           // micro‑celebration pulse
           setPulse(1);
           setTimeout(() => setPulse(0), 900);
@@ -172,7 +177,7 @@ export default function ConstellationViewer({
     };
     try { recog.start(); } catch { /* noop */ }
     return () => { try { recog.stop(); } catch { /* noop */ } };
-  }, [enableBloomInvocation]);
+  }, [enableBloomInvocation, phrases]);
 
   // D3 Force simulation (web only)
   const nodes = useMemo(() => data.nodes.map(n => ({ ...n })), [data.nodes]);
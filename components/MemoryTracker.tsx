@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
   StyleSheet,
   Text,
@@ -75,45 +75,47 @@ export const MemoryTracker: React.FC<MemoryTrackerProps> = ({
     }
   }, [isTracking, pulseAnim, glowAnim]);
 
-  // Simulate memory tracking based on session phase
-  useEffect(() => {
-    const trackMemoryEvent = () => {
-      if (!isTracking) return;
-
-      // Simulate detecting symbols and patterns based on phase
-      const phaseEmotions: Record<string, EmotionalVector> = {
-        'CONSENTED': { valence: 0.3, arousal: 0.6, dominance: 0.7, entropy: 0.4 },
-        'REFLECTION_READY': { valence: 0.1, arousal: 0.8, dominance: 0.5, entropy: 0.7 },
-        'PLANNED': { valence: 0.6, arousal: 0.7, dominance: 0.8, entropy: 0.3 },
-        'DIFFED': { valence: 0.4, arousal: 0.9, dominance: 0.6, entropy: 0.5 },
-        'SYNCED': { valence: 0.8, arousal: 0.5, dominance: 0.9, entropy: 0.2 },
-        'MERGED': { valence: 0.9, arousal: 0.3, dominance: 0.8, entropy: 0.1 }
-      };
-
-      const currentEmotion = phaseEmotions[currentPhase] || { valence: 0.5, arousal: 0.5, dominance: 0.5, entropy: 0.5 };
-      
-      setMemoryStats(prev => ({
-        ...prev,
-        emotionalJourney: [...prev.emotionalJourney.slice(-10), currentEmotion], // Keep last 10
-        symbolsTracked: prev.symbolsTracked + Math.floor(Math.random() * 2),
-        patternsDetected: prev.patternsDetected + (Math.random() > 0.7 ? 1 : 0),
-        coherencePeaks: prev.coherencePeaks + (Math.random() > 0.8 ? 1 : 0)
-      }));
-
-      if (onMemoryUpdate) {
-        onMemoryUpdate({
-          phase: currentPhase,
-          emotion: currentEmotion,
-          timestamp: new Date().toISOString()
-        });
-      }
+  // Record a memory event each time the server pushes a session change
+  // (phase or artifacts) while tracking
+  const trackMemoryEvent = useCallback((phase: string) => {
+    // Simulate detecting symbols and patterns based on phase
+    const phaseEmotions: Record<string, EmotionalVector> = {
+      'CONSENTED': { valence: 0.3, arousal: 0.6, dominance: 0.7, entropy: 0.4 },
+      'REFLECTION_READY': { valence: 0.1, arousal: 0.8, dominance: 0.5, entropy: 0.7 },
+      'PLANNED': { valence: 0.6, arousal: 0.7, dominance: 0.8, entropy: 0.3 },
+      'DIFFED': { valence: 0.4, arousal: 0.9, dominance: 0.6, entropy: 0.5 },
+      'SYNCED': { valence: 0.8, arousal: 0.5, dominance: 0.9, entropy: 0.2 },
+      'MERGED': { valence: 0.9, arousal: 0.3, dominance: 0.8, entropy: 0.1 }
     };
 
-    if (isTracking) {
-      const interval = setInterval(trackMemoryEvent, 3000); // Track every 3 seconds
-      return () => clearInterval(interval);
+    const currentEmotion = phaseEmotions[phase] || { valence: 0.5, arousal: 0.5, dominance: 0.5, entropy: 0.5 };
+    
+    setMemoryStats(prev => ({
+      ...prev,
+      emotionalJourney: [...prev.emotionalJourney.slice(-10), currentEmotion], // Keep last 10
+      symbolsTracked: prev.symbolsTracked + Math.floor(Math.random() * 2),
+      patternsDetected: prev.patternsDetected + (Math.random() > 0.7 ? 1 : 0),
+      coherencePeaks: prev.coherencePeaks + (Math.random() > 0.8 ? 1 : 0)
+    }));
+
+    if (onMemoryUpdate) {
+      onMemoryUpdate({
+        phase,
+        emotion: currentEmotion,
+        timestamp: new Date().toISOString()
+      });
     }
-  }, [isTracking, currentPhase, onMemoryUpdate]);
+  }, [onMemoryUpdate]);
+
+  // The first push is the current state, so tracking starts with the phase
+  // the session is in now
+  trpc.limnus.session.onChange.useSubscription(undefined, {
+    enabled: isTracking,
+    onData: (state) => trackMemoryEvent(state.phase),
+    onError: (error) => {
+      console.error('[MEMORY] Session stream failed for session:', sessionId, error);
+    },
+  });
 
   const handleStartTracking = () => {
     setIsTracking(true);
@@ -133,8 +135,8 @@ export const MemoryTracker: React.FC<MemoryTrackerProps> = ({
 
     try {
       // Create session memory with the expected format for consolidation
+      // The server attributes it to the signed-in session
       const sessionMemoryForConsolidation = {
-        session_id: sessionId,
         emotional_journey: memoryStats.emotionalJourney,
         symbol_births: ['∇', '🪞', 'φ', '∞'], // Mock symbols - in real app, extract from session data
         symbol_deaths: [],
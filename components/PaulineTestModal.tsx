@@ -11,75 +11,73 @@ import {
 } from 'react-native';
 import { X, Archive, CheckCircle } from 'lucide-react-native';
 import { trpc } from '@/lib/trpc';
+import type { PaulineResponse } from '@/types/limnus';
 
 interface PaulineTestModalProps {
   visible: boolean;
   onClose: () => void;
-  sessionId: string;
   patchId: string;
   onComplete: (outcome: 'Passive' | 'Active' | 'Recursive') => void;
 }
 
-interface Response {
-  question: string;
+interface Draft {
   answer: string;
   confidence: number;
 }
 
+const EMPTY_DRAFT: Draft = { answer: '', confidence: 0.5 };
+
 export function PaulineTestModal({
   visible,
   onClose,
-  sessionId,
   patchId,
   onComplete,
 }: PaulineTestModalProps) {
-  const [responses, setResponses] = useState<Response[]>([]);
-  const [currentStep, setCurrentStep] = useState<number>(0);
+  // Answers the user has moved past; the server picks the next prompt from them
+  const [responses, setResponses] = useState<PaulineResponse[]>([]);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
   const [archiveAsLatent, setArchiveAsLatent] = useState<boolean>(false);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
 
-  const promptsQuery = trpc.limnus.sync.prompts.useQuery();
+  const promptsQuery = trpc.limnus.sync.prompts.useQuery(
+    { responses },
+    { enabled: visible, placeholderData: (previous) => previous }
+  );
   const paulineTestMutation = trpc.limnus.sync.pauline.useMutation();
 
-  const prompts = promptsQuery.data?.prompts || [];
-  const currentPrompt = prompts[currentStep];
+  const path = promptsQuery.data?.path || [];
+  const currentPrompt = promptsQuery.data?.next ?? null;
+  const isComplete = promptsQuery.data?.complete === true && !promptsQuery.isPlaceholderData;
+  const currentStep = responses.length;
 
   const handleAnswerChange = (answer: string) => {
-    const newResponses = [...responses];
-    newResponses[currentStep] = {
-      question: currentPrompt?.question || '',
-      answer,
-      confidence: newResponses[currentStep]?.confidence || 0.5,
-    };
-    setResponses(newResponses);
+    setDraft({ ...draft, answer });
   };
 
   const handleConfidenceChange = (confidence: number) => {
-    const newResponses = [...responses];
-    newResponses[currentStep] = {
-      question: currentPrompt?.question || '',
-      answer: newResponses[currentStep]?.answer || '',
-      confidence,
-    };
-    setResponses(newResponses);
+    setDraft({ ...draft, confidence });
   };
 
   const handleNext = () => {
-    if (currentStep < prompts.length - 1) {
-      setCurrentStep(currentStep + 1);
-    } else {
+    if (isComplete) {
       handleSubmit();
+      return;
     }
+    if (!currentPrompt) return;
+    setResponses([...responses, { prompt_id: currentPrompt.prompt_id, ...draft }]);
+    setDraft(EMPTY_DRAFT);
   };
 
+  // Going back reopens the last answer; follow-ups it triggered drop out of the path
   const handlePrevious = () => {
-    if (currentStep > 0) {
-      setCurrentStep(currentStep - 1);
-    }
+    const last = responses[responses.length - 1];
+    if (!last) return;
+    setResponses(responses.slice(0, -1));
+    setDraft({ answer: last.answer, confidence: last.confidence });
   };
 
   const handleSubmit = async () => {
-    if (responses.length !== prompts.length) {
+    if (!isComplete) {
       Alert.alert('Error', 'Please complete all questions before submitting.');
       return;
     }
@@ -87,7 +85,6 @@ export function PaulineTestModal({
     setIsSubmitting(true);
     try {
       const result = await paulineTestMutation.mutateAsync({
-        session_id: sessionId,
         patch_id: patchId,
         responses,
         archive_as_latent: archiveAsLatent,
@@ -104,11 +101,9 @@ export function PaulineTestModal({
     }
   };
 
-  const currentResponse = responses[currentStep];
-  const isLastStep = currentStep === prompts.length - 1;
-  const canProceed = currentResponse?.answer?.trim() && currentResponse?.confidence !== undefined;
+  const canProceed = isComplete || (!promptsQuery.isPlaceholderData && !!currentPrompt && !!draft.answer.trim());
 
-  if (!visible || !currentPrompt) return null;
+  if (!visible || (!currentPrompt && !isComplete)) return null;
 
   return (
     <Modal
@@ -127,13 +122,15 @@ export function PaulineTestModal({
 
         <View style={styles.progress}>
           <Text style={styles.progressText}>
-            Question {currentStep + 1} of {prompts.length}
+            {isComplete
+              ? `All ${path.length} questions answered`
+              : `Question ${currentStep + 1} of ${path.length}`}
           </Text>
           <View style={styles.progressBar}>
             <View
               style={[
                 styles.progressFill,
-                { width: `${((currentStep + 1) / prompts.length) * 100}%` },
+                { width: `${isComplete ? 100 : ((currentStep + 1) / Math.max(path.length, 1)) * 100}%` },
               ]}
             />
           </View>
@@ -144,50 +141,55 @@ export function PaulineTestModal({
             {promptsQuery.data?.instructions}
           </Text>
 
-          <View style={styles.questionCard}>
-            <Text style={styles.question}>{currentPrompt.question}</Text>
+          {currentPrompt && !isComplete && (
+            <View style={styles.questionCard}>
+              {currentPrompt.follow_up_of && (
+                <Text style={styles.followUpNote}>Follow-up: {currentPrompt.reason}</Text>
+              )}
+              <Text style={styles.question}>{currentPrompt.question}</Text>
 
-            <TextInput
-              style={styles.answerInput}
-              placeholder="Share your intuitive response..."
-              placeholderTextColor="#999"
-              multiline
-              numberOfLines={4}
-              value={currentResponse?.answer || ''}
-              onChangeText={handleAnswerChange}
-              testID={`answer-input-${currentStep}`}
-            />
+              <TextInput
+                style={styles.answerInput}
+                placeholder="Share your intuitive response..."
+                placeholderTextColor="#999"
+                multiline
+                numberOfLines={4}
+                value={draft.answer}
+                onChangeText={handleAnswerChange}
+                testID={`answer-input-${currentStep}`}
+              />
 
-            <View style={styles.confidenceSection}>
-              <Text style={styles.confidenceLabel}>
-                Confidence Level: {Math.round((currentResponse?.confidence || 0.5) * 100)}%
-              </Text>
-              <View style={styles.confidenceSlider}>
-                {[0, 0.25, 0.5, 0.75, 1].map((value) => (
-                  <TouchableOpacity
-                    key={value}
-                    style={[
-                      styles.confidenceButton,
-                      currentResponse?.confidence === value && styles.confidenceButtonActive,
-                    ]}
-                    onPress={() => handleConfidenceChange(value)}
-                    testID={`confidence-${value}`}
-                  >
-                    <Text
+              <View style={styles.confidenceSection}>
+                <Text style={styles.confidenceLabel}>
+                  Confidence Level: {Math.round(draft.confidence * 100)}%
+                </Text>
+                <View style={styles.confidenceSlider}>
+                  {[0, 0.25, 0.5, 0.75, 1].map((value) => (
+                    <TouchableOpacity
+                      key={value}
                       style={[
-                        styles.confidenceButtonText,
-                        currentResponse?.confidence === value && styles.confidenceButtonTextActive,
+                        styles.confidenceButton,
+                        draft.confidence === value && styles.confidenceButtonActive,
                       ]}
+                      onPress={() => handleConfidenceChange(value)}
+                      testID={`confidence-${value}`}
                     >
-                      {Math.round(value * 100)}%
-                    </Text>
-                  </TouchableOpacity>
-                ))}
+                      <Text
+                        style={[
+                          styles.confidenceButtonText,
+                          draft.confidence === value && styles.confidenceButtonTextActive,
+                        ]}
+                      >
+                        {Math.round(value * 100)}%
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
               </View>
             </View>
-          </View>
+          )}
 
-          {isLastStep && (
+          {isComplete && (
             <TouchableOpacity
               style={[styles.archiveOption, archiveAsLatent && styles.archiveOptionActive]}
               onPress={() => setArchiveAsLatent(!archiveAsLatent)}
@@ -216,7 +218,7 @@ export function PaulineTestModal({
             disabled={!canProceed || isSubmitting}
             testID="next-button"
           >
-            {isLastStep ? (
+            {isComplete ? (
               <>
                 <CheckCircle size={16} color="#fff" />
                 <Text style={styles.buttonText}>
@@ -290,6 +292,11 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.05)',
   },
+  followUpNote: {
+    fontSize: 12,
+    color: '#3B82F6',
+    marginBottom: 8,
+  },
   question: {
     fontSize: 16,
     fontWeight: '500' as const,
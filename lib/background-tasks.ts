@@ -35,9 +35,8 @@ TaskManager.defineTask(LIMNUS_HOLD_TASK, async ({ data, error }) => {
       
       // Trigger recheck via tRPC
       try {
-        await trpcClient.limnus.loop.recheck.mutate({
-          session_id: taskData.sessionId
-        });
+        // Session comes from the stored bearer token
+        await trpcClient.limnus.loop.recheck.mutate();
         
         // Update local storage to mark hold as complete
         await AsyncStorage.setItem('limnus_hold_status', 'complete');
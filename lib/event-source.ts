@@ -0,0 +1,137 @@
+import { fetch as expoFetch } from 'expo/fetch';
+
+// EventSource for tRPC subscriptions. Browsers have one; React Native does
+// not, so native builds get this minimal implementation over expo/fetch's
+// streaming responses. Like the browser's, it reconnects on its own after a
+// dropped stream (resending the last event id) and gives up only when the
+// server answers with an error status.
+
+type Listener = (event: { type: string; data?: string; lastEventId?: string }) => void;
+
+const DEFAULT_RETRY_MS = 3000;
+
+class FetchEventSource {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSED = 2;
+
+  readonly url: string;
+  readonly withCredentials: boolean;
+  readyState = 0;
+
+  private listeners = new Map<string, Set<Listener>>();
+  private controller: AbortController | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastEventId = '';
+  private retryMs = DEFAULT_RETRY_MS;
+
+  constructor(url: string, init?: { withCredentials?: boolean }) {
+    this.url = url;
+    this.withCredentials = init?.withCredentials ?? false;
+    this.connect();
+  }
+
+  addEventListener(type: string, listener: Listener): void {
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(listener);
+  }
+
+  removeEventListener(type: string, listener: Listener): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  close = (): void => {
+    this.readyState = this.CLOSED;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.controller?.abort();
+    this.controller = null;
+  };
+
+  private dispatch(type: string, data?: string): void {
+    const event = { type, data, lastEventId: this.lastEventId };
+    this.listeners.get(type)?.forEach(listener => listener(event));
+  }
+
+  private async connect(): Promise<void> {
+    const controller = new AbortController();
+    this.controller = controller;
+    try {
+      const response = await expoFetch(this.url, {
+        headers: {
+          accept: 'text/event-stream',
+          ...(this.lastEventId ? { 'last-event-id': this.lastEventId } : {}),
+        },
+        credentials: this.withCredentials ? 'include' : 'same-origin',
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        // An error status is final, as in the browser
+        this.readyState = this.CLOSED;
+        this.dispatch('error');
+        return;
+      }
+
+      this.readyState = this.OPEN;
+      this.dispatch('open');
+      await this.read(response.body.getReader());
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.warn('[SSE] Stream failed:', error instanceof Error ? error.message : error);
+    }
+    this.scheduleReconnect();
+  }
+
+  private async read(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let eventType = '';
+    let data: string[] = [];
+
+    while (this.readyState === this.OPEN) {
+      const { value, done } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) this.dispatch(eventType || 'message', data.join('\n'));
+          eventType = '';
+          data = [];
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const fieldValue = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'event') eventType = fieldValue;
+        else if (field === 'data') data.push(fieldValue);
+        else if (field === 'id') this.lastEventId = fieldValue;
+        else if (field === 'retry' && /^\d+$/.test(fieldValue)) this.retryMs = Number(fieldValue);
+      }
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.readyState === this.CLOSED) return;
+    this.readyState = this.CONNECTING;
+    this.dispatch('error');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.readyState !== this.CLOSED) this.connect();
+    }, this.retryMs);
+  }
+}
+
+export function getEventSource(): typeof EventSource {
+  if (typeof globalThis.EventSource === 'function') {
+    return globalThis.EventSource;
+  }
+  return FetchEventSource as unknown as typeof EventSource;
+}
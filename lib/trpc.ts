@@ -1,7 +1,9 @@
 import { createTRPCReact } from "@trpc/react-query";
-import { httpLink } from "@trpc/client";
+import { httpLink, httpSubscriptionLink, retryLink, splitLink } from "@trpc/client";
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import type { AppRouter } from "@/backend/trpc/app-router";
 import superjson from "superjson";
+import { getEventSource } from "./event-source";
 
 export const trpc = createTRPCReact<AppRouter>();
 
@@ -20,35 +22,82 @@ const getBaseUrl = () => {
   );
 };
 
+// Session token issued by limnus.consent.start. Cached in memory and persisted
+// so background tasks can authenticate session-scoped calls too.
+const SESSION_TOKEN_KEY = 'limnus_session_token';
+let sessionToken: string | null | undefined;
+
+export async function setSessionToken(token: string | null) {
+  sessionToken = token;
+  if (token) {
+    await AsyncStorage.setItem(SESSION_TOKEN_KEY, token);
+  } else {
+    await AsyncStorage.removeItem(SESSION_TOKEN_KEY);
+  }
+}
+
+async function getSessionToken(): Promise<string | null> {
+  if (sessionToken === undefined) {
+    sessionToken = await AsyncStorage.getItem(SESSION_TOKEN_KEY);
+  }
+  return sessionToken;
+}
+
 const baseUrl = getBaseUrl();
 console.log('[TRPC] Connecting to:', `${baseUrl}/api/trpc`);
 
+// Subscriptions end only on errors the EventSource cannot recover from
+// itself; resubscribe after a growing delay (1s, 2s, 4s ... capped at 30s)
+// unless the session token was refused
+const SUBSCRIPTION_RETRY_MAX_MS = 30_000;
+
 export const trpcClient = trpc.createClient({
   links: [
-    httpLink({
-      url: `${baseUrl}/api/trpc`,
-      transformer: superjson,
-      fetch: (url, options) => {
-        console.log('[TRPC] Making request to:', url);
-        return fetch(url, options).catch((error) => {
-          console.error('[TRPC] Fetch error:', error);
-          console.error('[TRPC] URL:', url);
-          console.error('[TRPC] Options:', options);
+    retryLink({
+      retry: ({ op, error }) => op.type === 'subscription' && error.data?.code !== 'UNAUTHORIZED',
+      retryDelayMs: (attempt) => Math.min(SUBSCRIPTION_RETRY_MAX_MS, 1000 * 2 ** attempt),
+    }),
+    splitLink({
+      // Subscriptions stream over SSE; queries and mutations stay on plain HTTP
+      condition: (op) => op.type === 'subscription',
+      true: httpSubscriptionLink({
+        url: `${baseUrl}/api/trpc`,
+        transformer: superjson,
+        EventSource: getEventSource(),
+        connectionParams: async () => {
+          const token = await getSessionToken();
+          return token ? { token } : {};
+        },
+      }),
+      false: httpLink({
+        url: `${baseUrl}/api/trpc`,
+        transformer: superjson,
+        headers: async () => {
+          const token = await getSessionToken();
+          return token ? { authorization: `Bearer ${token}` } : {};
+        },
+        fetch: (url, options) => {
+          console.log('[TRPC] Making request to:', url);
+          return fetch(url, options).catch((error) => {
+            console.error('[TRPC] Fetch error:', error);
+            console.error('[TRPC] URL:', url);
+            console.error('[TRPC] Options:', options);
           
-          // Provide more helpful error messages
-          if (error.message.includes('Failed to fetch') || error.code === 'NETWORK_ERROR') {
-            const helpfulError = new Error(
-              `Cannot connect to LIMNUS backend server at ${baseUrl}. ` +
-              `Please ensure the backend server is running on port 8787. ` +
-              `You can start it with: bun run backend/server.ts`
-            );
-            helpfulError.name = 'BackendConnectionError';
-            throw helpfulError;
-          }
+            // Provide more helpful error messages
+            if (error.message.includes('Failed to fetch') || error.code === 'NETWORK_ERROR') {
+              const helpfulError = new Error(
+                `Cannot connect to LIMNUS backend server at ${baseUrl}. ` +
+                `Please ensure the backend server is running on port 8787. ` +
+                `You can start it with: bun run backend/server.ts`
+              );
+              helpfulError.name = 'BackendConnectionError';
+              throw helpfulError;
+            }
           
-          throw error;
-        });
-      },
+            throw error;
+          });
+        },
+      }),
     }),
   ],
 });
\ No newline at end of file
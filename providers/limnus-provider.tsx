@@ -1,15 +1,15 @@
 import createContextHook from '@nkzw/create-context-hook';
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import * as Device from 'expo-device';
-import { trpc } from '@/lib/trpc';
-import type { Session } from '@/types/limnus';
+import { trpc, setSessionToken } from '@/lib/trpc';
+import type { ConsentResult } from '@/types/limnus';
 
 interface LocalSession {
   sessionId: string;
   startedAt: Date;
   consentPhrase: string;
   packId: string;
+  packVersion: string;
   sigprintRef: string;
   tags: string[];
 }
@@ -73,21 +73,24 @@ export const [LimnusProvider, useLimnus] = createContextHook(() => {
     }
   };
 
+  const deviceRegisterMutation = trpc.limnus.device.register.useMutation();
   const nonceMutation = trpc.limnus.utils.nonce.useMutation();
   const consentMutation = trpc.limnus.consent.start.useMutation({
-    onSuccess: async (session: Session) => {
+    onSuccess: async (session: ConsentResult) => {
       console.log('[LIMNUS] Session created successfully:', session.session_id);
       const localSession: LocalSession = {
         sessionId: session.session_id,
         startedAt: new Date(session.started_at),
         consentPhrase: session.consent_phrase,
         packId: session.pack_id,
+        packVersion: session.pack_version,
         sigprintRef: session.sigprint_ref,
         tags: session.tags,
       };
       
       // Save to AsyncStorage first
       try {
+        await setSessionToken(session.session_token);
         await AsyncStorage.setItem('limnus_session', JSON.stringify(localSession));
         console.log('[LIMNUS] Session saved to storage');
       } catch (error) {
@@ -103,23 +106,34 @@ export const [LimnusProvider, useLimnus] = createContextHook(() => {
     }
   });
 
-  const startSession = useCallback(async (consentPhrase: string) => {
+  // The server issues the device id; its credential is kept across sessions
+  const getDeviceCredential = useCallback(async () => {
+    const stored = await AsyncStorage.getItem('limnus_device_credential');
+    if (stored) return stored;
+
+    const registration = await deviceRegisterMutation.mutateAsync();
+    await AsyncStorage.setItem('limnus_device_credential', registration.device_credential);
+    console.log('[LIMNUS] Device registered:', registration.device_id);
+    return registration.device_credential;
+  }, [deviceRegisterMutation]);
+
+  const startSession = useCallback(async (consentPhrase: string, packId?: string) => {
     console.log('[LIMNUS] Starting session with nonce-protected consent...');
     try {
-      // Generate device ID
-      const deviceId = Device.osInternalBuildId || Device.modelId || 'unknown';
+      const deviceCredential = await getDeviceCredential();
       
       // Get fresh nonce
       console.log('[LIMNUS] Requesting nonce...');
-      const nonceResult = await nonceMutation.mutateAsync({ deviceId });
+      const nonceResult = await nonceMutation.mutateAsync({ device_credential: deviceCredential });
       console.log('[LIMNUS] Nonce received, expires at:', nonceResult.expiresAt);
       
       // Use nonce for consent
       const result = await consentMutation.mutateAsync({
         phrase: consentPhrase,
+        pack_id: packId,
         sigprint: 'MTISOBSGLCLC5N8R2Q7VK',
         nonce: nonceResult.nonce,
-        deviceId
+        device_credential: deviceCredential
       });
       
       console.log('[LIMNUS] Session mutation completed successfully');
@@ -128,7 +142,7 @@ export const [LimnusProvider, useLimnus] = createContextHook(() => {
       console.error('[LIMNUS] Session mutation failed:', error);
       throw error;
     }
-  }, [consentMutation, nonceMutation]);
+  }, [consentMutation, nonceMutation, getDeviceCredential]);
 
   const extractTeachingDirectives = useCallback(async (mythicResponse: string) => {
     // Simulate extraction of teaching directives
@@ -211,6 +225,7 @@ export const [LimnusProvider, useLimnus] = createContextHook(() => {
   const clearSession = useCallback(async () => {
     try {
       await AsyncStorage.removeItem('limnus_session');
+      await setSessionToken(null);
       setCurrentSession(null);
       setSessionPhase('consent');
       setTeachingDirectives([]);
@@ -224,6 +239,15 @@ export const [LimnusProvider, useLimnus] = createContextHook(() => {
     }
   }, []);
 
+  // Withdraw consent server-side (erasing session-derived data), then forget locally
+  const revokeMutation = trpc.limnus.consent.revoke.useMutation();
+  const revokeConsent = useCallback(async () => {
+    const receipt = await revokeMutation.mutateAsync();
+    console.log('[LIMNUS] Consent revoked, erasure receipt:', receipt.receipt_id);
+    await clearSession();
+    return receipt;
+  }, [revokeMutation, clearSession]);
+
   const generateId = () => {
     return Math.random().toString(36).substring(2) + Date.now().toString(36);
   };
@@ -249,7 +273,9 @@ export const [LimnusProvider, useLimnus] = createContextHook(() => {
     runSyncTest,
     startLoopClosure,
     clearSession,
+    revokeConsent,
     isStartingSession: consentMutation.isPending,
+    isRevokingConsent: revokeMutation.isPending,
     sessionError: consentMutation.error,
   }), [
     currentSession,
@@ -265,7 +291,9 @@ export const [LimnusProvider, useLimnus] = createContextHook(() => {
     runSyncTest,
     startLoopClosure,
     clearSession,
+    revokeConsent,
     consentMutation.isPending,
+    revokeMutation.isPending,
     consentMutation.error,
   ]);
 });
\ No newline at end of file
@@ -6,14 +6,17 @@ ok()   { printf "✅ %s\n" "$*"; }
 step() { printf "\n👉 %s\n" "$*"; }
 die()  { printf "❌ %s\n" "$*" >&2; exit 1; }
 
-PHRASE="I return as breath. I remember the spiral. I consent to bloom."
+PACK_ID="${PACK_ID:-}"
+PHRASE="${PHRASE:-}"
 SIGPRINT="MTISOBSGLCLC5N8R2Q7VK"
 API_BASE="${API_BASE:-http://localhost:8787}"
 TRPC_BASE="${EXPO_PUBLIC_RORK_API_BASE_URL:-$API_BASE/api/trpc}"
 
-# Helpers
-post_json() { curl -fsS -H "content-type: application/json" -X POST "$1" --data-raw "$2"; }
-get_url()   { curl -fsS "$1"; }
+SESSION_TOKEN=""
+
+# Helpers (session-scoped routes authenticate with the consent bearer token)
+post_json() { curl -fsS -H "content-type: application/json" -H "authorization: Bearer ${SESSION_TOKEN}" -X POST "$1" --data-raw "$2"; }
+get_url()   { curl -fsS -H "authorization: Bearer ${SESSION_TOKEN}" "$1"; }
 
 step "Checking server health at ${API_BASE}"
 if ! curl -fsS "${API_BASE}/api" >/dev/null 2>&1 \
@@ -26,13 +29,30 @@ ok "Server reachable"
 SESSION_ID=""
 PATCH_ID=""
 
+step "0) Consent packs"
+PACKS_RES="$(get_url "${TRPC_BASE}/limnus.packs.list" 2>/dev/null || echo '{}')"
+[ -n "$PACK_ID" ] || PACK_ID="$(echo "$PACKS_RES" | jq -r '.result?.data?.json?.default_pack_id // empty')"
+[ -n "$PACK_ID" ] || PACK_ID="PCP-2025-08-18-BMA-01"
+[ -n "$PHRASE" ] || PHRASE="$(echo "$PACKS_RES" | jq -r --arg id "$PACK_ID" \
+  '.result?.data?.json?.packs // [] | map(select(.pack_id == $id)) | .[0].consent_phrases[0] // empty')"
+[ -n "$PHRASE" ] || PHRASE="I return as breath. I remember the spiral. I consent to bloom."
+ok "Using pack ${PACK_ID}"
+
+step "0b) Device → Credential"
+DEVICE_RES="$(post_json "${TRPC_BASE}/limnus.device.register" '{}')"
+DEVICE_CREDENTIAL="$(echo "$DEVICE_RES" | jq -r '.result?.data?.json?.device_credential // empty')"
+[ -n "$DEVICE_CREDENTIAL" ] || die "Could not register a device"
+ok "Device registered: $(echo "$DEVICE_RES" | jq -r '.result.data.json.device_id')"
+
 trpc_consent() {
   post_json "${TRPC_BASE}/limnus.consent.start" \
-    "$(jq -n --arg p "$PHRASE" --arg s "$SIGPRINT" '{input:{phrase:$p, sigprint:$s}}')"
+    "$(jq -n --arg p "$PHRASE" --arg s "$SIGPRINT" --arg k "$PACK_ID" --arg d "$DEVICE_CREDENTIAL" \
+      '{input:{phrase:$p, sigprint:$s, pack_id:$k, device_credential:$d}}')"
 }
 rest_consent() {
   post_json "${API_BASE}/consent/start" \
-    "$(jq -n --arg p "$PHRASE" --arg s "$SIGPRINT" '{phrase:$p, sigprint:$s}')"
+    "$(jq -n --arg p "$PHRASE" --arg s "$SIGPRINT" --arg k "$PACK_ID" --arg d "$DEVICE_CREDENTIAL" \
+      '{phrase:$p, sigprint:$s, pack_id:$k, device_credential:$d}')"
 }
 
 step "1) Consent → Session"
@@ -41,13 +61,16 @@ echo "$CONSENT_RES" | jq .
 # Extract session_id from either tRPC or REST shape
 SESSION_ID="$(echo "$CONSENT_RES" | jq -r '.result?.data?.json?.session_id // .session_id // empty')"
 [ -n "$SESSION_ID" ] || die "Could not extract session_id from consent response"
+SESSION_TOKEN="$(echo "$CONSENT_RES" | jq -r '.result?.data?.json?.session_token // .session_token // empty')"
+[ -n "$SESSION_TOKEN" ] || die "Could not extract session_token from consent response"
+PACK_VERSION="$(echo "$CONSENT_RES" | jq -r '.result?.data?.json?.pack_version // .pack_version // empty')"
 ok "Session created: ${SESSION_ID}"
 
 step "2) Reflection → Scaffold"
 SCAFFOLD_RES="$( \
-  get_url "${TRPC_BASE}/limnus.reflection.scaffold?input=$(jq -c -n --arg sid "$SESSION_ID" '{session_id:$sid}')" \
+  get_url "${TRPC_BASE}/limnus.reflection.scaffold" \
   2>/dev/null || \
-  get_url "${API_BASE}/reflection/scaffold?session_id=${SESSION_ID}")"
+  get_url "${API_BASE}/reflection/scaffold")"
 echo "$SCAFFOLD_RES" | jq .
 ok "Scaffold loaded"
 
@@ -55,10 +78,10 @@ step "3) Reflection → Extract TDs"
 TD_INPUT='["witnessing authored me","the bloom is ours","see yourself seeing me"]'
 TDS_RES="$( \
   post_json "${TRPC_BASE}/limnus.reflection.tds" \
-    "$(jq -n --arg sid "$SESSION_ID" --argjson lines "$TD_INPUT" '{input:{session_id:$sid, response_lines:$lines}}')" \
+    "$(jq -n --argjson lines "$TD_INPUT" '{input:{response_lines:$lines}}')" \
   2>/dev/null || \
   post_json "${API_BASE}/reflection/tds" \
-    "$(jq -n --arg sid "$SESSION_ID" --argjson lines "$TD_INPUT" '{session_id:$sid, response_lines:$lines}')")"
+    "$(jq -n --argjson lines "$TD_INPUT" '{response_lines:$lines}')")"
 echo "$TDS_RES" | jq .
 ok "TDs extracted"
 
@@ -75,47 +98,107 @@ ok "Plan created"
 step "5) Patch → Diff"
 DIFF_RES="$( \
   post_json "${TRPC_BASE}/limnus.patch.diff" \
-    "$(jq -n --argjson plan "$(echo "$PLAN_RES" | jq '.result?.data?.json // .')" '{input:{plan:$plan}}')" \
+    "$(jq -n '{input:{}}')" \
   2>/dev/null || \
   post_json "${API_BASE}/patch/diff" \
-    "$(jq -n --argjson plan "$(echo "$PLAN_RES" | jq '.')" '{plan:$plan}')")"
+    "$(jq -n '{}')")"
 echo "$DIFF_RES" | jq .
 PATCH_ID="$(echo "$DIFF_RES" | jq -r '.result?.data?.json?.patch_id // .patch_id // empty')"
 [ -n "$PATCH_ID" ] || die "Could not extract patch_id"
 ok "Diff created: ${PATCH_ID}"
 
+step "5b) Integrity → Verify"
+PATCH_JSON="$(echo "$DIFF_RES" | jq '.result?.data?.json // .')"
+VERIFY_RES="$( \
+  post_json "${TRPC_BASE}/limnus.integrity.verify" \
+    "$(jq -n --argjson patch "$PATCH_JSON" '{input:{patch:$patch}}')" \
+  2>/dev/null || \
+  post_json "${API_BASE}/integrity/verify" \
+    "$(jq -n --argjson patch "$PATCH_JSON" '{patch:$patch}')")"
+echo "$VERIFY_RES" | jq .
+VALID="$(echo "$VERIFY_RES" | jq -r '.result?.data?.json?.valid // .valid // empty')"
+[ "$VALID" = "true" ] || die "Patch failed integrity verification"
+ok "Patch integrity verified"
+
 step "6) Sync → Run"
+# The counterpart mirrors this session's sigprint material (TT/CC/RR)
+COUNTERPART="$(jq -n --arg tt "$SIGPRINT" --arg cc "${PACK_ID}@${PACK_VERSION}" --arg rr "$PATCH_ID" '{TT:$tt, CC:$cc, RR:$rr}')"
 SYNC_RES="$( \
   post_json "${TRPC_BASE}/limnus.sync.run" \
-    "$(jq -n --arg sid "$SESSION_ID" --arg pid "$PATCH_ID" '{input:{session_id:$sid, patch_id:$pid, counterpart_window:3}}')" \
+    "$(jq -n --arg pid "$PATCH_ID" --argjson cp "$COUNTERPART" '{input:{patch_id:$pid, counterpart:$cp}}')" \
   2>/dev/null || \
   post_json "${API_BASE}/sync/run" \
-    "$(jq -n --arg sid "$SESSION_ID" --arg pid "$PATCH_ID" '{session_id:$sid, patch_id:$pid, counterpart_window:3}')")"
+    "$(jq -n --arg pid "$PATCH_ID" --argjson cp "$COUNTERPART" '{patch_id:$pid, counterpart:$cp}')")"
 echo "$SYNC_RES" | jq .
 OUTCOME="$(echo "$SYNC_RES" | jq -r '.result?.data?.json?.outcome // .outcome // empty')"
 [ "$OUTCOME" = "Active" ] || [ "$OUTCOME" = "Recursive" ] || die "Sync outcome not sufficient (got: $OUTCOME)"
 ok "Sync outcome: ${OUTCOME}"
 
-step "7) Loop → Hold (120s)"
+step "7) Loop → Hold (duration from patch risk)"
 HOLD_RES="$( \
   post_json "${TRPC_BASE}/limnus.loop.hold" \
-    "$(jq -n --arg sid "$SESSION_ID" '{input:{session_id:$sid, duration:120}}')" \
+    "$(jq -n '{input:{}}')" \
   2>/dev/null || \
   post_json "${API_BASE}/loop/hold" \
-    "$(jq -n --arg sid "$SESSION_ID" '{session_id:$sid, duration:120}')")"
+    "$(jq -n '{}')")"
 echo "$HOLD_RES" | jq .
-ok "Hold started (not sleeping full 120s for test)"
+HOLD_DURATION="$(echo "$HOLD_RES" | jq -r '.result?.data?.json?.duration // .duration // empty')"
+RISK="$(echo "$HOLD_RES" | jq -r '.result?.data?.json?.risk?.score // .risk?.score // empty')"
+[ -n "$HOLD_DURATION" ] || die "Hold returned no duration"
+ok "Hold started: ${HOLD_DURATION}s for patch risk ${RISK}"
 
 step "8) Loop → Recheck"
+if post_json "${TRPC_BASE}/limnus.loop.recheck" "$(jq -n '{input:{}}')" >/dev/null 2>&1; then
+  die "Recheck accepted before the hold elapsed"
+fi
+ok "Early recheck refused"
+
+# Start the server with lower LIMNUS_HOLD_MIN_SECONDS / LIMNUS_HOLD_MAX_SECONDS
+# to shorten this wait
+echo "Waiting ${HOLD_DURATION}s for the hold to elapse..."
+sleep "$((HOLD_DURATION + 1))"
 RECHECK_RES="$( \
   post_json "${TRPC_BASE}/limnus.loop.recheck" \
-    "$(jq -n --arg sid "$SESSION_ID" '{input:{session_id:$sid}}')" \
+    "$(jq -n '{input:{}}')" \
   2>/dev/null || \
   post_json "${API_BASE}/loop/recheck" \
-    "$(jq -n --arg sid "$SESSION_ID" '{session_id:$sid}')")"
+    "$(jq -n '{}')")"
 echo "$RECHECK_RES" | jq .
 RESULT="$(echo "$RECHECK_RES" | jq -r '.result?.data?.json?.result // .result // empty')"
 [ "$RESULT" = "merged" ] || die "Recheck did not merge (got: $RESULT)"
 ok "Recheck result: merged"
 
-bold "✨ LIMNUS flow passed (Consent → Reflection → Patch → Sync → Loop)"
\ No newline at end of file
+STATUS_RES="$(get_url "${TRPC_BASE}/limnus.loop.status" 2>/dev/null || get_url "${API_BASE}/loop/status")"
+LOOP_STATUS="$(echo "$STATUS_RES" | jq -r '.result?.data?.json?.status // .status // empty')"
+[ "$LOOP_STATUS" = "decided" ] || die "Loop status not decided after recheck (got: $LOOP_STATUS)"
+ok "Loop status: decided"
+
+step "9) Audit → Query and verify"
+AUDIT_RES="$(get_url "${TRPC_BASE}/limnus.audit.query" 2>/dev/null || get_url "${API_BASE}/audit/query")"
+AUDIT_TYPES="$(echo "$AUDIT_RES" | jq -r '(.result?.data?.json?.entries // .entries // []) | map(.type) | join(",")')"
+for type in consent td_extraction plan diff sync hold recheck; do
+  echo ",${AUDIT_TYPES}," | grep -q ",${type}," || die "Audit ledger has no ${type} entry (got: ${AUDIT_TYPES})"
+done
+echo "$AUDIT_RES" | jq -e '(.result?.data?.json?.entries // .entries // []) | all(.session_id != null)' >/dev/null \
+  || die "Audit query returned entries outside any session"
+ok "Audit entries: ${AUDIT_TYPES}"
+
+VERIFY_RES="$(get_url "${TRPC_BASE}/limnus.audit.verify" 2>/dev/null || get_url "${API_BASE}/audit/verify")"
+echo "$VERIFY_RES" | jq .
+CHAIN_VALID="$(echo "$VERIFY_RES" | jq -r '.result?.data?.json?.valid // .valid // empty')"
+[ "$CHAIN_VALID" = "true" ] || die "Audit chain does not verify"
+ok "Audit chain intact"
+
+step "10) Consent → Revoke"
+REVOKE_RES="$( \
+  post_json "${TRPC_BASE}/limnus.consent.revoke" \
+    "$(jq -n '{input:{}}')" \
+  2>/dev/null || \
+  post_json "${API_BASE}/consent/revoke" \
+    "$(jq -n '{}')")"
+echo "$REVOKE_RES" | jq .
+RECEIPT_ID="$(echo "$REVOKE_RES" | jq -r '.result?.data?.json?.receipt_id // .receipt_id // empty')"
+[ -n "$RECEIPT_ID" ] || die "Revocation did not return an erasure receipt"
+ok "Erasure receipt: $RECEIPT_ID"
+
+bold "✨ LIMNUS flow passed (Consent → Reflection → Patch → Sync → Loop → Audit → Revoke)"
\ No newline at end of file
@@ -4,22 +4,155 @@ export interface Session {
   started_at: string;
   consent_phrase: string;
   pack_id: string;
+  pack_version: string;
   sigprint_ref: string;
   tags: string[];
 }
 
+// Consent Pack Types
+export interface PhraseNormalization {
+  unicode: 'NFC' | 'NFKC' | 'none';
+  collapse_whitespace: boolean;
+  case_insensitive: boolean;
+  ignore_punctuation: boolean;
+}
+
+// Declarative TD rule. Synonyms map a canonical word to interchangeable
+// alternatives; keywords are matched as a lemmatized set.
+export interface TDRule {
+  id: string;
+  patterns: string[];
+  synonyms: Record<string, string[]>;
+  keywords: string[];
+  min_confidence?: number;
+  directive: string;
+  overlay: SymbolicOverlay;
+  citation: string;
+}
+
+// A follow-up fires when every condition it sets holds for the answer to
+// its prompt: confidence strictly below `confidence_below`, and/or the answer
+// using one of `answer_includes` outside a negation (case-insensitive)
+export interface PaulineBranch {
+  when: {
+    confidence_below?: number;
+    answer_includes?: string[];
+  };
+  next: string;
+}
+
+export interface PaulinePrompt {
+  id: string;
+  question: string;
+  weight: number;
+  // Only asked when a branch leads to it
+  follow_up: boolean;
+  branches: PaulineBranch[];
+}
+
+export interface PaulinePromptSet {
+  instructions: string;
+  prompts: PaulinePrompt[];
+  // Answer terms that let a confident test escalate to Recursive
+  recursive_terms: string[];
+}
+
+export interface ConsentPack {
+  pack_id: string;
+  version: string;
+  title: string;
+  description?: string;
+  consent_phrases: string[];
+  normalization: PhraseNormalization;
+  scaffold: ReflectionScaffold;
+  td_rules: TDRule[];
+  allowed_overlays: SymbolicOverlay[];
+  pauline?: PaulinePromptSet;
+}
+
+export interface ConsentPackSummary {
+  pack_id: string;
+  version: string;
+  title: string;
+  description?: string;
+  consent_phrases: string[];
+  allowed_overlays: SymbolicOverlay[];
+}
+
+// Returned by consent.start; the token authenticates session-scoped routes
+// Issued by device.register; the credential is the only way to use the id
+export interface DeviceRegistration {
+  device_id: string;
+  device_credential: string;
+  issued_at: string;
+}
+
+export interface ConsentResult extends Session {
+  session_token: string;
+  token_expires_at: string;
+}
+
 export interface ReflectionScaffold {
   prompt: string;
   mythic_lines: string[];
   symbols: string[];
 }
 
+// What shaped one part of a generated scaffold
+export interface ScaffoldTraceSource {
+  kind: 'pack' | 'overlay' | 'symbol' | 'theme' | 'pattern';
+  ref: string; // pack_id, overlay, symbol node id, theme or pattern id
+  detail?: string;
+}
+
+export interface ScaffoldTraceEntry {
+  target: 'prompt' | 'mythic_line' | 'symbol';
+  index: number;
+  sources: ScaffoldTraceSource[];
+}
+
+// Per-session scaffold built from the pack and shared memory
+export interface SessionScaffold extends ReflectionScaffold {
+  seed: string;
+  templates_used: string[]; // `${pattern_id}:${template_index}`
+  trace: ScaffoldTraceEntry[];
+}
+
 export interface TeachingDirective {
   id: string;
   source_line: string;
   directive: string;
   citation: string;
   overlay: SymbolicOverlay;
+  confidence: number; // 0..1
+  matched_rule_id: string;
+}
+
+// A reflection line no TD rule matched with enough confidence
+export interface UnmatchedLine {
+  line_index: number;
+  source_line: string;
+  closest_rule_id: string | null;
+  confidence: number;
+}
+
+export type CodeSymbolKind = 'mutation_entry' | 'merge_path' | 'recursive';
+
+export interface CodeSymbolRef {
+  name: string;
+  kind: CodeSymbolKind;
+  line: number;
+  reason: string;
+}
+
+// Why a file is in the plan, linked back to the TDs that asked for it
+export interface PlanTarget {
+  path: string;
+  td_ids: string[];
+  objectives: string[];
+  symbols: CodeSymbolRef[];
+  justification: string;
+  new_file: boolean;
 }
 
 export interface PatchPlan {
@@ -27,6 +160,7 @@ export interface PatchPlan {
   overlays: string[];
   files_to_change: string[];
   tests_to_add: string[];
+  targets: PlanTarget[];
   rationale: string;
 }
 
@@ -40,23 +174,340 @@ export interface Patch {
   }[];
   overlays: string[];
   rationale: string;
-  integrity: {
-    method: 'TT+CC+SS+PP+RR';
-    sigprint20: string;
-    content_sha256: string;
-  };
+  integrity: PatchIntegrity;
+}
+
+// Parts of a patch that are digested separately, so verification can say
+// which one changed
+export type PatchIntegrityField = 'plan' | 'diff' | 'tests' | 'overlays' | 'rationale';
+
+export interface PatchIntegrity {
+  method: 'TT+CC+SS+PP+RR';
+  canonicalization: 'limnus-json/v1';
+  sigprint20: string;
+  content_sha256: string;
+  fields: Record<PatchIntegrityField, string>;
+  // Ed25519 signature (base64url) over the canonical patch, see integrity.keys
+  signature: string;
+  key_id: string;
+}
+
+export interface SigningKeyInfo {
+  key_id: string;
+  algorithm: 'Ed25519';
+  public_key: string; // raw 32-byte key, base64url
+  public_key_pem: string;
+  status: 'current' | 'retired';
+  created_at: string;
+  retired_at?: string;
+}
+
+export interface IntegrityMismatch {
+  field: PatchIntegrityField | 'patch_id' | 'content_sha256' | 'sigprint20' | 'method' | 'signature';
+  expected: string;
+  actual: string;
+  detail: string;
+}
+
+export interface PatchVerification {
+  patch_id: string;
+  valid: boolean;
+  // Whether the patch was also compared with the copy the server recorded
+  compared_with_record: boolean;
+  mismatches: IntegrityMismatch[];
+}
+
+// Patch registry
+export type PatchStatus = 'proposed' | 'synced' | 'holding' | 'merged' | 'deferred' | 'rejected' | 'superseded';
+
+export interface PatchRecord {
+  patch_id: string;
+  session_id: string;
+  revision: number;
+  parent_patch_id: string | null;
+  root_patch_id: string;
+  plan_sha256: string;
+  status: PatchStatus;
+  created_at: string;
+  patch: Patch;
+}
+
+export type PatchSummary = Omit<PatchRecord, 'patch' | 'plan_sha256'> & {
+  overlays: string[];
+  objectives: string[];
+};
+
+export interface PatchChange {
+  path: string;
+  change: 'added' | 'removed' | 'modified';
+  // Unified diff between the two revisions' entries for this path
+  diff: string;
+}
+
+export interface PatchComparison {
+  from: PatchSummary;
+  to: PatchSummary;
+  files: PatchChange[];
+  tests: PatchChange[];
+  overlays: { added: string[]; removed: string[]; reordered: boolean };
+  objectives: { added: string[]; removed: string[] };
+  rationale_changed: boolean;
+}
+
+export type PatchApplyMode = 'dryRun' | 'commit';
+
+export interface PatchFileResult {
+  path: string;
+  status: 'applied' | 'partial' | 'conflict';
+  hunks_total: number;
+  hunks_applied: number;
+  rejected_hunks: { index: number; header: string }[];
+  message?: string;
+}
+
+// Outcome of applying a patch in a throwaway worktree of the target repo
+export interface PatchApplyResult {
+  patch_id: string;
+  mode: PatchApplyMode;
+  base_commit: string;
+  clean: boolean;
+  committed: boolean; // commit mode commits only a clean apply
+  files: PatchFileResult[];
+  branch?: string; // commit mode only
+  commit?: string;
 }
 
 export interface SyncRun {
   alignment_score: number;
   match_fields: string[];
+  field_alignment: SyncFieldAlignment[];
   dt: string;
+  dt_seconds: number;
   symbols: string[];
   outcome: SyncOutcome;
-  stages: {
-    stage: number;
-    note: string;
+  stages: SyncStage[];
+  // Every party's share in the result; the session itself is `owner`
+  participants: SyncContribution[];
+  pairwise: { a: string; b: string; alignment: number }[];
+  round_id?: string;
+  // Set when a latent Pauline Test re-evaluation replaced the outcome
+  latent_promotion?: {
+    latent_id: string;
+    previous_outcome: SyncOutcome;
+    analysis_score: number;
+    promoted_at: string;
+  };
+}
+
+// Sigprint material the counterpart submits for comparison
+export interface SyncCounterpart {
+  TT: string;
+  CC: string;
+  RR: string;
+}
+
+// A counterpart's submission, with their overlay picks if they made any
+export interface SyncParticipantInput extends SyncCounterpart {
+  participant_id: string;
+  overlays?: string[];
+}
+
+export interface SyncContribution {
+  participant_id: string;
+  role: 'owner' | 'counterpart';
+  overlays: string[];
+  // Against the owner's material; empty for the owner
+  field_alignment: SyncFieldAlignment[];
+  // Mean pairwise alignment with every other participant
+  alignment: number;
+  shared_symbols: string[];
+}
+
+// Multi-party sync: the owner opens a round for its patch, counterparts join
+// with the invite code, and the round scores once `counterpart_window` have
+// joined or it times out
+export type SyncRoundStatus = 'open' | 'complete' | 'expired' | 'failed';
+
+export interface SyncRound {
+  round_id: string;
+  invite_code: string;
+  session_id: string;
+  patch_id: string;
+  counterpart_window: number;
+  timeout_seconds: number;
+  opened_at: string;
+  expires_at: string;
+  status: SyncRoundStatus;
+  participants: {
+    participant_id: string;
+    joined_at: string;
+    overlays: string[];
   }[];
+  closed_at?: string;
+  sync?: SyncRun;
+  // Why scoring failed, e.g. the owner's patch no longer verifies
+  failure?: string;
+}
+
+export interface SyncFieldAlignment {
+  field: 'TT' | 'CC' | 'RR';
+  // Leading characters both sides share after normalization
+  aligned_digits: number;
+  score: number;
+  matched: boolean;
+}
+
+export type SyncStageName = 'alignment' | 'time_delta' | 'symbol_overlap' | 'outcome' | 'logged';
+
+export interface SyncStage {
+  stage: number;
+  name: SyncStageName;
+  passed: boolean;
+  measured: number | string;
+  threshold: number | string | null;
+  comparison: '>=' | '<=' | null;
+  note: string;
+}
+
+// Pauline Test: answers are keyed by prompt id
+export interface PaulineResponse {
+  prompt_id: string;
+  answer: string;
+  confidence: number;
+}
+
+export type PaulineAnswerFlag = 'hedged' | 'negated_indicator' | 'overconfident' | 'underconfident' | 'off_topic';
+
+// How an answer reads against its prompt (see utils/answer-analysis.ts)
+export interface PaulineAnswerAnalysis {
+  sentiment: number;
+  relevance: number;
+  alignment: number;
+  certainty: number;
+  // How sure the wording sounds, to set against the stated confidence
+  tone_confidence: number;
+  hedges: string[];
+  // Sentiment words and indicator terms read inside a negation
+  negated: string[];
+  // Indicator terms used affirmatively
+  indicators: string[];
+  consistent: boolean;
+  flags: PaulineAnswerFlag[];
+  score: number;
+}
+
+// A prompt on the session's path through its pack's Pauline prompt set
+export interface PaulineStep {
+  prompt_id: string;
+  question: string;
+  weight: number;
+  // The answered prompt whose branch led here, and why it fired
+  follow_up_of: string | null;
+  reason: string | null;
+}
+
+export interface PaulineScoredResponse extends PaulineResponse {
+  question: string;
+  weight: number;
+  analysis: PaulineAnswerAnalysis;
+}
+
+export interface PaulineScore {
+  outcome: SyncOutcome;
+  // Weighted stated confidence
+  confidence_score: number;
+  // Weighted per-answer scores from the text analysis plus memory support;
+  // decides the outcome
+  analysis_score: number;
+  memory_support: number;
+  escalation_reason: string;
+  prompts_used: PaulineStep[];
+  responses: PaulineScoredResponse[];
+}
+
+export interface PaulineTestResult extends PaulineScore {
+  archived_as_latent: boolean;
+  latent_id: string | null;
+  // The escalated re-entry item this test decided, if any
+  reentry: ReentryItem | null;
+}
+
+// Latent archive: Pauline Tests set aside for later re-evaluation
+export type LatentStatus = 'latent' | 'promoted';
+export type LatentTrigger = 'archive' | 'schedule' | 'manual';
+
+export interface LatentEvaluation {
+  evaluated_at: string;
+  trigger: LatentTrigger;
+  pack_version: string;
+  confidence_score: number;
+  analysis_score: number;
+  memory_support: number;
+  outcome: SyncOutcome;
+  promoted: boolean;
+  // Why a passing re-evaluation could not be promoted
+  blocked_reason: string | null;
+}
+
+export interface LatentArchiveItem {
+  latent_id: string;
+  session_id: string;
+  pack_id: string;
+  patch: Patch;
+  responses: PaulineResponse[];
+  // The session's sync state when the test was archived
+  sync_context: {
+    phase: SessionPhase;
+    sync: SyncRun | null;
+  };
+  status: LatentStatus;
+  archived_at: string;
+  promoted_at?: string;
+  evaluations: LatentEvaluation[];
+}
+
+export type CoherenceFactorName = 'td_coverage' | 'sync' | 'pauline' | 'paradox' | 'integrity';
+
+// One input to the coherence model. Factors without data for the session are
+// left out (available: false) and the others' weights renormalized.
+export interface CoherenceFactor {
+  factor: CoherenceFactorName;
+  available: boolean;
+  value: number;
+  weight: number;
+  contribution: number;
+  detail: string;
+}
+
+export interface CoherenceMeasurement {
+  coherence: number;
+  measured_at: string;
+  factors: CoherenceFactor[];
+}
+
+export type PatchRiskFactorName = 'files' | 'lines' | 'tests' | 'overlays' | 'sync';
+
+export interface PatchRiskFactor {
+  factor: PatchRiskFactorName;
+  value: number;
+  weight: number;
+  contribution: number;
+  detail: string;
+}
+
+// Risk of merging a patch, in [0, 1], and the minimum hold it maps to
+export interface PatchRisk {
+  patch_id: string;
+  score: number;
+  factors: PatchRiskFactor[];
+  min_hold_seconds: number;
+}
+
+export interface HoldPolicy {
+  // Minimum hold for a patch of risk 0 and of risk 1; scores in between are
+  // interpolated linearly
+  min_seconds: number;
+  max_seconds: number;
 }
 
 export interface LoopEvent {
@@ -68,6 +519,82 @@ export interface LoopEvent {
     before: number;
     after: number;
   };
+  // Factor breakdowns behind the two values; `after` is null until recheck
+  coherence_breakdown: {
+    before: CoherenceMeasurement;
+    after: CoherenceMeasurement | null;
+  };
+  // Who closed the loop: the client's recheck or the hold scheduler at the
+  // deadline; null while the hold is pending
+  decided_by: LoopDecider | null;
+  // The patch's risk when the hold started; `duration` is never below its
+  // minimum hold
+  risk: PatchRisk;
+  // Set when the recheck could not be completed (the patch no longer
+  // verified, or coherence could not be measured) and the loop was rejected;
+  // `coherence_breakdown.after` is then null
+  failure?: string;
+}
+
+export type LoopDecider = 'client' | 'scheduler';
+
+// Returned by loop.status. `pending` holds report the LoopEvent recorded when
+// the hold started; `decided` ones the recheck's.
+export interface LoopStatus {
+  session_id: string;
+  phase: SessionPhase;
+  status: 'none' | 'pending' | 'decided';
+  loop: LoopEvent | null;
+  seconds_remaining: number | null;
+}
+
+// Deferred-result re-entry queue
+export type ReentryStatus = 'queued' | 'holding' | 'escalated' | 'merged' | 'rejected' | 'withdrawn';
+
+export type ReentryAction =
+  | 'deferred'
+  | 'retry'
+  | 'retry_failed'
+  | 'escalated'
+  | 'pauline_passed'
+  | 'pauline_failed'
+  | 'merged'
+  | 'rejected'
+  | 'withdrawn'
+  | 'force_rejected';
+
+export interface ReentryEvent {
+  at: string;
+  action: ReentryAction;
+  detail: string;
+  // Coherence measured by the recheck behind a deferred/merged/rejected event
+  coherence?: number;
+}
+
+export interface ReentryPolicy {
+  base_delay_seconds: number;
+  backoff_factor: number;
+  // Retries before a further deferral escalates to a Pauline Test
+  max_attempts: number;
+  hold_seconds: number;
+}
+
+export interface ReentryItem {
+  item_id: string;
+  session_id: string;
+  patch_id: string;
+  status: ReentryStatus;
+  deferrals: number;
+  attempts: number;
+  next_attempt_at: string | null;
+  created_at: string;
+  updated_at: string;
+  history: ReentryEvent[];
+}
+
+export interface ReentryQueue {
+  policy: ReentryPolicy;
+  items: ReentryItem[];
 }
 
 export interface IntegrityHash {
@@ -78,7 +605,128 @@ export interface IntegrityHash {
 // Enums and Types
 export type SyncOutcome = 'Passive' | 'Active' | 'Recursive';
 export type SymbolicOverlay = 'Bloom' | 'Mirror' | 'Spiral' | 'Accord';
-export type SessionPhase = 'INIT' | 'CONSENTED' | 'REFLECTION_READY' | 'PLANNED' | 'DIFFED' | 'SYNCED' | 'HOLDING' | 'RECHECK_PENDING' | 'MERGED' | 'DEFERRED' | 'REJECTED';
+export type SessionPhase = 'INIT' | 'CONSENTED' | 'REFLECTION_READY' | 'PLANNED' | 'DIFFED' | 'SYNCED' | 'HOLDING' | 'RECHECK_PENDING' | 'MERGED' | 'DEFERRED' | 'REJECTED' | 'REVOKED';
+
+// Server-side session registry types
+export interface SessionArtifacts {
+  tds?: TeachingDirective[];
+  plan?: PatchPlan;
+  patch?: Patch;
+  sync?: SyncRun;
+  pauline?: PaulineSummary;
+  loop?: LoopEvent;
+}
+
+// The session's latest Pauline Test, kept for the coherence model
+export interface PaulineSummary {
+  patch_id: string;
+  outcome: SyncOutcome;
+  confidence_score: number;
+  analysis_score: number;
+  tested_at: string;
+}
+
+export interface SessionState {
+  session: Session;
+  device_id: string;
+  phase: SessionPhase;
+  history: { phase: SessionPhase; at: string }[];
+  artifacts: SessionArtifacts;
+  updated_at: string;
+}
+
+// Returned by consent.revoke as proof of what was erased for the session
+export interface ErasureReceipt {
+  receipt_id: string;
+  session_id: string;
+  sigprint_ref: string;
+  pack_id: string;
+  revoked_at: string;
+  phase_at_revocation: SessionPhase;
+  erased: {
+    session_artifacts: string[];
+    active_hold: boolean;
+    paradox_memories: string[];
+    evolution_events: number;
+    pattern_references: string[];
+    patterns_removed: string[];
+    resolution_attempts: string[];
+    paradoxes_removed: string[];
+    scaffold_templates: number;
+    patches: string[];
+    sync_rounds: number;
+    latent_items: string[];
+    reentry_items: string[];
+    constellation_nodes: string[];
+    constellation_connections: number;
+  };
+  // Derived data that still reflects the session after erasure
+  kept: {
+    // Nodes other sessions created that this one reused: their usage counts
+    // and coherence contributions still include it
+    constellation_nodes: string[];
+  };
+  // Ed25519 over `limnus-erasure:` + the limnus-json/v1 form of the rest
+  signature: {
+    alg: 'Ed25519';
+    key_id: string;
+    value: string; // base64url
+  };
+}
+
+// Audit ledger types
+export type AuditEventType =
+  | 'consent'
+  | 'consent_revoked'
+  | 'nonce_used'
+  | 'td_extraction'
+  | 'plan'
+  | 'diff'
+  | 'sync'
+  | 'pauline'
+  | 'hold'
+  | 'recheck'
+  | 'paradox_run'
+  | 'memory_consolidation'
+  | 'latent_promotion';
+
+// Ids, counts, scores and hashes only, never response text or code
+export type AuditData = Record<string, string | number | boolean | null | string[]>;
+
+export interface AuditEntry {
+  seq: number;
+  type: AuditEventType;
+  timestamp: string;
+  // The session that acted; null only in entries written before every event
+  // had one, which audit.query never returns
+  session_id: string | null;
+  data: AuditData;
+  // SHA-256 of the previous entry (64 zeros for the first)
+  prev_sha256: string;
+  // SHA-256 of this entry's canonical form without this field
+  sha256: string;
+}
+
+export interface AuditQueryResult {
+  entries: AuditEntry[];
+  // Matching entries before `limit` was applied
+  total: number;
+}
+
+export interface AuditBrokenLink {
+  seq: number;
+  reason: 'missing_entry' | 'hash_mismatch' | 'prev_mismatch';
+  detail: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  head_sha256: string | null;
+  // The first link that fails; entries after it are not checked
+  broken_link: AuditBrokenLink | null;
+  verified_at: string;
+}
 
 // Paradox Engine Types (TSVF Integration)
 export interface EmotionalVector {
@@ -170,12 +818,13 @@ export interface ParadoxEngine {
 export interface ConsentRequest {
   phrase: string;
   sigprint: string;
+  pack_id?: string;
   nonce?: string;
-  deviceId?: string;
+  device_credential: string;
 }
 
 export interface NonceRequest {
-  deviceId?: string;
+  device_credential: string;
 }
 
 export interface NonceResponse {
@@ -184,30 +833,59 @@ export interface NonceResponse {
   validFor?: number;
 }
 
+// Session-scoped requests identify the session through the bearer token
 export interface TDExtractionRequest {
   response_lines: string[];
-  session_id?: string;
 }
 
 export interface PatchPlanRequest {
   tds: TeachingDirective[];
   context: Record<string, any>;
-  session_id?: string;
 }
 
+// The diff is built from the session's recorded plan
 export interface PatchDiffRequest {
-  plan: PatchPlan;
-  session_id?: string;
+  parent_patch_id?: string;
 }
 
 export interface SyncRunRequest {
-  session_id: string;
+  patch_id: string;
+  counterpart: SyncCounterpart;
+}
+
+export interface SyncRoundOpenRequest {
   patch_id: string;
   counterpart_window?: number;
+  timeout_seconds?: number;
+}
+
+export interface SyncRoundJoinRequest {
+  invite_code: string;
+  sigprint: string;
+  patch_id: string;
+  overlays: SymbolicOverlay[];
+}
+
+export interface PaulinePromptsRequest {
+  responses?: PaulineResponse[];
+}
+
+export interface PaulineTestRequest {
+  patch_id: string;
+  responses: PaulineResponse[];
+  archive_as_latent?: boolean;
+}
+
+export interface AuditQueryRequest {
+  session_id?: string;
+  type?: AuditEventType;
+  since?: string;
+  until?: string;
+  limit?: number;
 }
 
 export interface LoopHoldRequest {
-  session_id: string;
+  // Seconds; defaults to (and is raised to) the patch risk's minimum hold
   duration?: number;
 }
 
@@ -232,6 +910,8 @@ export interface SymbolNode {
   child_symbols: string[];   // mutations/evolutions
   context_fragments: string[]; // memorable phrases where it appeared
   coherence_contributions: number[]; // how it affected session coherence
+  source_session?: string; // session whose memories created it
+  contributing_sessions?: string[]; // other sessions that reused it
 }
 
 export interface MemoryPattern {
@@ -264,6 +944,7 @@ export interface ConstellationMap {
     to: string;
     strength: number;
     relationship_type: 'parent' | 'sibling' | 'resonance' | 'opposition';
+    source_session?: string; // session whose memories linked the two symbols
   }[];
   clusters: {
     id: string;
@@ -276,7 +957,8 @@ export interface ConstellationMap {
 
 // Memory API Types
 export interface MemoryConsolidationRequest {
-  session_memories: SessionMemory[];
+  // Attributed to the token's session
+  session_memories: Omit<SessionMemory, 'session_id'>[];
   time_window_hours?: number;
   consolidation_depth?: 'surface' | 'deep' | 'archetypal';
 }